@@ -0,0 +1,316 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./CarbonCreditMarketplace.sol";
+import "./CarbonCreditToken.sol";
+
+// Auction listings for carbon credits, fees and pausing follow the marketplace
+contract CarbonCreditAuctionHouse is ReentrancyGuard, ERC1155Holder {
+    uint16 private constant BIPS_DENOMINATOR = 10000;
+
+    // Contracts we'll interact with
+    CarbonCreditMarketplace public marketplace;
+    CarbonCreditToken public carbonToken;
+
+    enum AuctionType {
+        English,
+        Dutch
+    }
+
+    // Auction structure, all prices are for the whole lot of credits in wei
+    struct Auction {
+        AuctionType auctionType;
+        bool isActive;
+        address seller;
+        uint256 tokenId;
+        uint256 creditsAmount;
+        uint256 startPrice;         // English: reserve price, Dutch: price when the auction starts
+        uint256 priceParameter;     // English: minimum bid increment, Dutch: floor price when the auction ends
+        uint256 startTimestamp;
+        uint256 endTimestamp;
+        address highestBidder;      // English only
+        uint256 highestBid;         // English only
+    }
+    // Mapping of auction ID to Auction
+    mapping(uint256 => Auction) public auctions;
+    uint256 internal nextAuctionId;
+    // Seller proceeds and refunds of outbid bidders
+    mapping(address => uint256) public accountBalances;
+    // Winner => token ID => credits won in English auctions, pulled with claimCredits
+    mapping(address => mapping(uint256 => uint256)) public claimableCredits;
+
+    // Modifier to restrict functions to when marketplace is not paused
+    modifier whenNotPaused() {
+        require(!marketplace.marketplacePaused(), "Trading is paused");
+        _;
+    }
+
+    constructor(address payable _marketplaceAddress) {
+        marketplace = CarbonCreditMarketplace(_marketplaceAddress);
+        carbonToken = marketplace.carbonToken();
+    }
+
+    function createEnglishAuction(
+        uint256 _tokenId,
+        uint256 _amount,
+        uint256 _reservePrice,
+        uint256 _minBidIncrement,
+        uint256 _duration
+    ) external whenNotPaused {
+        if(_reservePrice == 0)
+            revert InvalidPrice(_reservePrice);
+        if(_minBidIncrement == 0)
+            revert InvalidPrice(_minBidIncrement);
+        uint256 auctionId = openAuction(AuctionType.English, _tokenId, _amount, _reservePrice, _minBidIncrement, _duration);
+        emit EnglishAuctionCreated(
+            auctionId,
+            msg.sender,
+            _tokenId,
+            _amount,
+            _reservePrice,
+            _minBidIncrement,
+            block.timestamp + _duration
+        );
+    }
+
+    function createDutchAuction(
+        uint256 _tokenId,
+        uint256 _amount,
+        uint256 _startPrice,
+        uint256 _floorPrice,
+        uint256 _duration
+    ) external whenNotPaused {
+        if(_floorPrice == 0 || _floorPrice >= _startPrice)
+            revert InvalidPrice(_floorPrice);
+        uint256 auctionId = openAuction(AuctionType.Dutch, _tokenId, _amount, _startPrice, _floorPrice, _duration);
+        emit DutchAuctionCreated(
+            auctionId,
+            msg.sender,
+            _tokenId,
+            _amount,
+            _startPrice,
+            _floorPrice,
+            block.timestamp + _duration
+        );
+    }
+
+    function openAuction(
+        AuctionType _auctionType,
+        uint256 _tokenId,
+        uint256 _amount,
+        uint256 _startPrice,
+        uint256 _priceParameter,
+        uint256 _duration
+    ) private returns(uint256 auctionId) {
+        if(!carbonToken.isApprovedForAll(msg.sender, address(this)))
+            revert TransferNotApproved();
+        if(_amount == 0)
+            revert InvalidAmount(_amount);
+        if(_amount > carbonToken.balanceOf(msg.sender, _tokenId))
+            revert InsufficientBalance(_amount);
+        if(_duration < marketplace.minOrderDuration() || _duration > marketplace.maxOrderDuration())
+            revert InvalidDuration(_duration);
+        marketplace.requireAuditedProject(_tokenId);
+        auctionId = nextAuctionId++;
+
+        // Transfer tokens to this address
+        carbonToken.safeTransferFrom(msg.sender, address(this), _tokenId, _amount, "");
+
+        auctions[auctionId] = Auction({
+            auctionType: _auctionType,
+            isActive: true,
+            seller: msg.sender,
+            tokenId: _tokenId,
+            creditsAmount: _amount,
+            startPrice: _startPrice,
+            priceParameter: _priceParameter,
+            startTimestamp: block.timestamp,
+            endTimestamp: block.timestamp + _duration,
+            highestBidder: address(0),
+            highestBid: 0
+        });
+    }
+
+    // Bid on an English auction, the outbid bidder can withdraw their bid from accountBalances
+    function placeBid(uint256 _auctionId) external payable whenNotPaused nonReentrant {
+        Auction memory auction = openAuctionOfType(_auctionId, AuctionType.English);
+        marketplace.requireAuditedProject(auction.tokenId);
+        uint256 minimumBid = auction.highestBidder == address(0)
+            ? auction.startPrice
+            : auction.highestBid + auction.priceParameter;
+        if(msg.value < minimumBid) revert BidTooLow(minimumBid);
+
+        if(auction.highestBidder != address(0))
+            accountBalances[auction.highestBidder] += auction.highestBid;
+        auctions[_auctionId].highestBidder = msg.sender;
+        auctions[_auctionId].highestBid = msg.value;
+        emit AuctionBidPlaced(_auctionId, msg.sender, msg.value);
+    }
+
+    // Settle an English auction after it has ended, credits go back to the seller if nobody bid or the project is
+    // no longer audited, in which case the highest bid is refunded.
+    // The winner claims the credits separately, so a winner that can't receive them doesn't block the settlement.
+    function settleAuction(uint256 _auctionId) external nonReentrant {
+        Auction memory auction = auctions[_auctionId];
+        if(!auction.isActive || auction.auctionType != AuctionType.English)
+            revert InactiveAuction(_auctionId);
+        if(block.timestamp <= auction.endTimestamp)
+            revert AuctionNotEnded(_auctionId);
+        auctions[_auctionId].isActive = false;
+
+        uint256 projectId = carbonToken.getProjectId(auction.tokenId);
+        if(auction.highestBidder == address(0) || !marketplace.projectRegistry().isProjectAudited(projectId)){
+            if(auction.highestBidder != address(0))
+                accountBalances[auction.highestBidder] += auction.highestBid;
+            carbonToken.returnEscrow(auction.seller, auction.tokenId, auction.creditsAmount);
+            emit AuctionCancelled(_auctionId, auction.seller);
+            return;
+        }
+        claimableCredits[auction.highestBidder][auction.tokenId] += auction.creditsAmount;
+        creditSaleProceeds(auction.highestBidder, auction.seller, auction.tokenId, auction.highestBid);
+        emit AuctionSettled(_auctionId, auction.highestBidder, auction.seller, auction.creditsAmount, auction.highestBid);
+    }
+
+    // Current price of a Dutch auction, decays linearly from the start price to the floor price
+    function getDutchAuctionPrice(uint256 _auctionId) public view returns(uint256) {
+        Auction memory auction = auctions[_auctionId];
+        if(auction.auctionType != AuctionType.Dutch)
+            revert InactiveAuction(_auctionId);
+        if(block.timestamp >= auction.endTimestamp)
+            return auction.priceParameter;
+        uint256 elapsed = block.timestamp - auction.startTimestamp;
+        uint256 duration = auction.endTimestamp - auction.startTimestamp;
+        return auction.startPrice - (auction.startPrice - auction.priceParameter) * elapsed / duration;
+    }
+
+    // Buy the whole lot of a Dutch auction at the current price
+    function buyDutchAuction(uint256 _auctionId) external payable whenNotPaused nonReentrant {
+        Auction memory auction = openAuctionOfType(_auctionId, AuctionType.Dutch);
+        marketplace.requireAuditedProject(auction.tokenId);
+        uint256 price = getDutchAuctionPrice(_auctionId);
+        if(msg.value < price) revert InsufficientPayment();
+        auctions[_auctionId].isActive = false;
+
+        carbonToken.safeTransferFrom(address(this), msg.sender, auction.tokenId, auction.creditsAmount, "");
+        creditSaleProceeds(msg.sender, auction.seller, auction.tokenId, price);
+
+        // Refund excess
+        unchecked{
+            uint256 refundAmount = msg.value - price;
+            if (refundAmount > 0) {
+                (bool refundSent,) = payable(msg.sender).call{value: refundAmount}("");
+                if (!refundSent) revert RefundFailed();
+            }
+        }
+        emit AuctionSettled(_auctionId, msg.sender, auction.seller, auction.creditsAmount, price);
+    }
+
+    // Cancel an auction, English auctions can only be cancelled before the first bid
+    function cancelAuction(uint256 _auctionId) external nonReentrant {
+        Auction memory auction = auctions[_auctionId];
+        if(!auction.isActive) revert InactiveAuction(_auctionId);
+        if(auction.seller != msg.sender) revert NotAuctionOwner();
+        if(auction.highestBidder != address(0)) revert AuctionHasBids(_auctionId);
+        auctions[_auctionId].isActive = false;
+        carbonToken.returnEscrow(auction.seller, auction.tokenId, auction.creditsAmount);
+        emit AuctionCancelled(_auctionId, msg.sender);
+    }
+
+    // Send the credits won in English auctions to _to
+    function claimCredits(uint256 _tokenId, address _to) external nonReentrant {
+        uint256 amount = claimableCredits[msg.sender][_tokenId];
+        if(amount == 0)
+            revert InsufficientBalance(amount);
+        claimableCredits[msg.sender][_tokenId] = 0;
+        carbonToken.safeTransferFrom(address(this), _to, _tokenId, amount, "");
+        emit CreditsClaimed(msg.sender, _to, _tokenId, amount);
+    }
+
+    function withdrawAccountBalance(address _to, uint256 _withdrawAmount) external nonReentrant {
+        uint256 _accountBalance = accountBalances[msg.sender];
+        if(_accountBalance < _withdrawAmount)
+            revert InsufficientBalance(_accountBalance);
+        accountBalances[msg.sender] -= _withdrawAmount;
+        (bool transferSuccessful,) = payable(_to).call{value: _withdrawAmount}("");
+        if(!transferSuccessful)
+            revert TransferFailed();
+    }
+
+    function openAuctionOfType(uint256 _auctionId, AuctionType _auctionType) private view returns(Auction memory auction) {
+        auction = auctions[_auctionId];
+        if(!auction.isActive || auction.auctionType != _auctionType)
+            revert InactiveAuction(_auctionId);
+        if(block.timestamp > auction.endTimestamp)
+            revert AuctionEnded(_auctionId);
+    }
+
+    // Platform fee is paid into the marketplace balance, the project owner royalty and the rest are credited to the seller.
+    // The fee follows the marketplace fee schedule when one is set. Sales only count towards traded volume once the
+    // schedule accepts the auction house as a trade recorder, settlements never depend on it.
+    function creditSaleProceeds(address _buyer, address _seller, uint256 _tokenId, uint256 _price) private {
+        CarbonFeeSchedule feeSchedule = marketplace.feeSchedule();
+        uint256 feeBasisPoints = marketplace.platformFeeBasisPoints();
+        if(address(feeSchedule) != address(0))
+            feeBasisPoints = feeSchedule.tradeRecorders(address(this))
+                ? feeSchedule.recordTrade(_buyer, _seller, _tokenId, address(0), _price)
+                : feeSchedule.getFeeBasisPoints(_buyer, _seller, _tokenId, address(0));
+        uint256 platformFee = _price * feeBasisPoints / BIPS_DENOMINATOR;
+        (address royaltyReceiver, uint256 royalty) = carbonToken.royaltyInfo(_tokenId, _price);
+        accountBalances[_seller] += _price - platformFee - royalty;
+        if(royalty > 0)
+            accountBalances[royaltyReceiver] += royalty;
+        (bool feeSent,) = payable(address(marketplace)).call{value: platformFee}("");
+        if(!feeSent)
+            revert TransferFailed();
+    }
+
+    error AuctionEnded(uint256 auctionId);
+    error AuctionHasBids(uint256 auctionId);
+    error AuctionNotEnded(uint256 auctionId);
+    error BidTooLow(uint256 minimumBid);
+    error InactiveAuction(uint256 auctionId);
+    error InsufficientBalance(uint256 amount);
+    error InsufficientPayment();
+    error InvalidAmount(uint256 amount);
+    error InvalidDuration(uint256 duration);
+    error InvalidPrice(uint256 price);
+    error NotAuctionOwner();
+    error RefundFailed();
+    error TransferFailed();
+    error TransferNotApproved();
+
+    event AuctionBidPlaced(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 bid
+    );
+    event AuctionCancelled(uint256 indexed auctionId, address indexed seller);
+    event AuctionSettled(
+        uint256 indexed auctionId,
+        address indexed buyer,
+        address indexed seller,
+        uint256 creditsAmount,
+        uint256 price
+    );
+    event CreditsClaimed(address indexed winner, address indexed to, uint256 indexed tokenId, uint256 amount);
+    event DutchAuctionCreated(
+        uint256 indexed auctionId,
+        address indexed seller,
+        uint256 indexed tokenId,
+        uint256 creditsAmount,
+        uint256 startPrice,
+        uint256 floorPrice,
+        uint256 endTimestamp
+    );
+    event EnglishAuctionCreated(
+        uint256 indexed auctionId,
+        address indexed seller,
+        uint256 indexed tokenId,
+        uint256 creditsAmount,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint256 endTimestamp
+    );
+}
@@ -1,19 +1,45 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC1155/utils/ERC1155HolderUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./CarbonCreditToken.sol";
+import "./CarbonFeeSchedule.sol";
 import "./CarbonProjectRegistry.sol";
 
-contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
+// Deployed behind a UUPS proxy, new state variables and struct fields are only ever appended
+contract CarbonCreditMarketplace is
+    Initializable,
+    OwnableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ERC1155HolderUpgradeable,
+    EIP712Upgradeable,
+    UUPSUpgradeable
+{
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.UintSet;
     
     bool public marketplacePaused;
-    uint16 public platformFeeBasisPoints = 120; // 1.2% initially
+    // Can pause instantly when the owner is a timelock, unpausing still goes through the owner
+    address public pauseGuardian;
+    uint16 public platformFeeBasisPoints;
     uint16 public constant closeExpiredOrderReward = 10; // 0.1% of order price
     uint16 private constant BIPS_DENOMINATOR = 10000; // platform fee can display % with 2 decimal places
     uint256 private constant ORDER_EXPIRATION_PERIOD = 7 days;
+    // Bounds for the duration sellers can choose for their orders
+    uint256 public minOrderDuration;
+    uint256 public maxOrderDuration;
+    bytes32 private constant SIGNED_ORDER_TYPEHASH = keccak256(
+        "SignedOrder(address seller,uint256 tokenId,uint256 creditsAmount,uint256 pricePerCredit,address paymentToken,uint256 nonce,uint256 expirationTimestamp)"
+    );
 
     // Contracts we'll interact with
     CarbonCreditToken public carbonToken;
@@ -22,16 +48,60 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
     struct TradeOrder {
         bool isActive;
         address seller;
-        uint256 projectId;
+        uint256 tokenId;            // Project and vintage, see CarbonCreditToken.getTokenId
         uint256 creditsAmount;     // Total amount of credits
-        uint256 orderPrice;         // in wei
+        uint256 orderPrice;         // in wei or in the smallest unit of the payment token
         uint256 expirationTimestamp;
+        address paymentToken;       // address(0) for the native coin
     }
     // Mapping of order ID to Trade Order
     mapping(uint256 => TradeOrder) public tradeOrders;
     uint256 internal nextOrderId;
+    // Indexes of active trade orders, orders are removed once they are filled or closed
+    EnumerableSet.UintSet private activeOrderIds;
+    mapping(uint256 => EnumerableSet.UintSet) private tokenOrderIds;
+    mapping(address => EnumerableSet.UintSet) private sellerOrderIds;
+    // Buy order structure, orderPrice is escrowed by the marketplace
+    struct BuyOrder {
+        bool isActive;
+        address buyer;
+        uint256 tokenId;
+        uint256 creditsAmount;     // Total amount of credits wanted
+        uint256 orderPrice;         // in wei or in the smallest unit of the payment token
+        uint256 expirationTimestamp;
+        address paymentToken;       // address(0) for the native coin
+    }
+    // Mapping of buy order ID to Buy Order, buy orders have their own ID space
+    mapping(uint256 => BuyOrder) public buyOrders;
+    uint256 internal nextBuyOrderId;
+    // Sell order signed off-chain by the seller (EIP-712), credits stay in the seller's wallet until filled
+    struct SignedOrder {
+        address seller;
+        uint256 tokenId;
+        uint256 creditsAmount;
+        uint256 pricePerCredit;
+        address paymentToken;       // address(0) for the native coin
+        uint256 nonce;              // Has to match the seller's current nonce
+        uint256 expirationTimestamp;
+    }
+    // Current nonce of each seller, increasing it cancels all orders signed with an older nonce
+    mapping(address => uint256) public signedOrderNonces;
+    // Credits already sold from a signed order, keyed by the order hash
+    mapping(bytes32 => uint256) public signedOrderFills;
+    mapping(bytes32 => bool) public cancelledSignedOrders;
     // Mapping to store how much 
     mapping(address => uint256) public accountBalances;
+    // Payment token => account => balance, same as accountBalances but for ERC-20 payments
+    mapping(address => mapping(address => uint256)) public tokenAccountBalances;
+    // ERC-20 tokens sellers can choose as payment
+    mapping(address => bool) public allowedPaymentTokens;
+    // Collects the platform fees that accrue in the marketplace's own ledger entry, see CarbonFeeTreasury
+    address public feeTreasury;
+    // Payment token => budget for closing expired orders, kept apart from the fee revenue
+    mapping(address => uint256) public keeperRewardReserves;
+    mapping(address => uint256) public keeperRewardsPaid;
+    // Resolves tiered and overridden fees when set, otherwise every trade pays platformFeeBasisPoints
+    CarbonFeeSchedule public feeSchedule;
 
     // Modifier to restrict functions to when marketplace is not paused
     modifier whenNotPaused() {
@@ -39,15 +109,34 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
         _;
     }
 
-    constructor(
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
         address _carbonTokenAddress, 
         address _projectRegistryAddress,
         address _initialOwner
-    ) payable Ownable(_initialOwner){
+    )
+        external
+        payable
+        initializer
+    {
+        __Ownable_init(_initialOwner);
+        __ReentrancyGuard_init();
+        __ERC1155Holder_init();
+        __EIP712_init("CarbonCreditMarketplace", "1");
+        __UUPSUpgradeable_init();
+        platformFeeBasisPoints = 120; // 1.2% initially
+        minOrderDuration = 1 days;
+        maxOrderDuration = 30 days;
         carbonToken = CarbonCreditToken(_carbonTokenAddress);
         projectRegistry = CarbonProjectRegistry(_projectRegistryAddress);
     }
 
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
     receive() external payable {
         accountBalances[address(this)] += msg.value;
     }
@@ -63,88 +152,236 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
         emit PlatformFeeUpdated(newFeeBasisPoints);
     }
 
+    function updateOrderDurationBounds(uint256 newMinDuration, uint256 newMaxDuration) external onlyOwner {
+        require(newMinDuration > 0, "Duration is too small");
+        require(newMinDuration <= newMaxDuration, "Invalid duration bounds");
+        minOrderDuration = newMinDuration;
+        maxOrderDuration = newMaxDuration;
+        emit OrderDurationBoundsUpdated(newMinDuration, newMaxDuration);
+    }
+
     function toggleMarketplacePause() external onlyOwner {
         marketplacePaused = !marketplacePaused;
         emit MarketplacePauseStatusChanged(marketplacePaused);
     }
 
+    function setPauseGuardian(address _pauseGuardian) external onlyOwner {
+        pauseGuardian = _pauseGuardian;
+        emit PauseGuardianUpdated(_pauseGuardian);
+    }
+
+    function emergencyPause() external {
+        if(msg.sender != pauseGuardian && msg.sender != owner())
+            revert NotPauseGuardian();
+        marketplacePaused = true;
+        emit MarketplacePauseStatusChanged(true);
+    }
+
+    function setFeeTreasury(address _feeTreasury) external onlyOwner {
+        feeTreasury = _feeTreasury;
+        emit FeeTreasuryUpdated(_feeTreasury);
+    }
+
+    function setFeeSchedule(address _feeSchedule) external onlyOwner {
+        feeSchedule = CarbonFeeSchedule(_feeSchedule);
+        emit FeeScheduleUpdated(_feeSchedule);
+    }
+
+    function setPaymentTokenAllowed(address _paymentToken, bool _allowed) external onlyOwner {
+        if(_paymentToken == address(0))
+            revert PaymentTokenNotAllowed(_paymentToken);
+        allowedPaymentTokens[_paymentToken] = _allowed;
+        emit PaymentTokenAllowed(_paymentToken, _allowed);
+    }
+
     // Create a sell order for carbon credits
     function createSellOrder(
-        uint256 _projectId, 
+        uint256 _tokenId, 
         uint256 _amount, 
-        uint256 _pricePerCredit
+        uint256 _pricePerCredit,
+        uint256 _duration
+    ) external whenNotPaused {
+        openSellOrder(_tokenId, _amount, _pricePerCredit, _duration, address(0));
+    }
+
+    // Create a sell order for carbon credits priced in an allowed ERC-20 token
+    function createTokenSellOrder(
+        uint256 _tokenId, 
+        uint256 _amount, 
+        uint256 _pricePerCredit,
+        uint256 _duration,
+        address _paymentToken
     ) external whenNotPaused {
+        if(!allowedPaymentTokens[_paymentToken])
+            revert PaymentTokenNotAllowed(_paymentToken);
+        openSellOrder(_tokenId, _amount, _pricePerCredit, _duration, _paymentToken);
+    }
+
+    function openSellOrder(
+        uint256 _tokenId, 
+        uint256 _amount, 
+        uint256 _pricePerCredit,
+        uint256 _duration,
+        address _paymentToken
+    ) private {
         if(!carbonToken.isApprovedForAll(msg.sender, address(this))) 
             revert TransferNotApproved();
         if(_pricePerCredit == 0) 
             revert InvalidPrice(_pricePerCredit);
-        if(_amount > carbonToken.balanceOf(msg.sender, _projectId)) 
+        if(_duration < minOrderDuration || _duration > maxOrderDuration)
+            revert InvalidDuration(_duration);
+        if(_amount > carbonToken.balanceOf(msg.sender, _tokenId)) 
             revert InsufficientBalance(_amount);
+        requireAuditedProject(_tokenId);
         uint256 orderId = nextOrderId++;
 
         // Transfer tokens to this address
-        carbonToken.safeTransferFrom(msg.sender, address(this), _projectId, _amount, "");
+        carbonToken.safeTransferFrom(msg.sender, address(this), _tokenId, _amount, "");
 
-        unchecked{
-            uint256 totalPrice = _amount * _pricePerCredit;
-
-            // Create trade order
-            tradeOrders[orderId] = TradeOrder({
-                seller: msg.sender,
-                projectId: _projectId,
-                creditsAmount: _amount,
-                orderPrice: totalPrice,
-                isActive: true,
-                expirationTimestamp: block.timestamp + ORDER_EXPIRATION_PERIOD
-            });
-
-            emit OrderCreated(
-                orderId, 
-                msg.sender, 
-                _projectId, 
-                _amount, 
-                totalPrice
-            );
-        }
+        // Checked, fillOrder relies on orderPrice being an exact multiple of creditsAmount
+        uint256 totalPrice = _amount * _pricePerCredit;
+
+        // Create trade order
+        tradeOrders[orderId] = TradeOrder({
+            seller: msg.sender,
+            tokenId: _tokenId,
+            creditsAmount: _amount,
+            orderPrice: totalPrice,
+            isActive: true,
+            expirationTimestamp: block.timestamp + _duration,
+            paymentToken: _paymentToken
+        });
+        activeOrderIds.add(orderId);
+        tokenOrderIds[_tokenId].add(orderId);
+        sellerOrderIds[msg.sender].add(orderId);
+
+        emit OrderCreated(
+            orderId, 
+            msg.sender, 
+            _tokenId, 
+            _amount, 
+            totalPrice
+        );
     }
 
     // Execute a trade order
-    function executeTrade(uint256 _orderId) external payable whenNotPaused nonReentrant {        
-        TradeOrder memory order = tradeOrders[_orderId];   
+    function executeTrade(uint256 _orderId) external payable whenNotPaused nonReentrant {
+        uint256 amount = tradeOrders[_orderId].creditsAmount;
+        buyFromOrder(_orderId, amount, true);
+    }
+
+    // Buy part of a trade order at the order's per-credit price
+    function executePartialTrade(uint256 _orderId, uint256 _amount) external payable whenNotPaused nonReentrant {
+        buyFromOrder(_orderId, _amount, true);
+    }
+
+    // Buy credits from a trade order and retire them right away on behalf of a beneficiary
+    function executeTradeAndRetire(
+        uint256 _orderId, 
+        uint256 _amount, 
+        string calldata _beneficiary, 
+        string calldata _description
+    ) external payable whenNotPaused nonReentrant {
+        uint256 tokenId = buyFromOrder(_orderId, _amount, false);
+        carbonToken.retireCreditsOnBehalf(msg.sender, tokenId, _amount, _beneficiary, _description);
+    }
+
+    // Buy from several trade orders priced in the native coin with one payment, excess is refunded once
+    function executeTradeBatch(
+        uint256[] calldata _orderIds, 
+        uint256[] calldata _amounts, 
+        uint256 _maxTotalPrice
+    ) external payable whenNotPaused nonReentrant {
+        uint256 length = _orderIds.length;
+        if(length != _amounts.length) revert MismatchingArrayLengths();
+        uint256 totalPrice;
+        for(uint256 i = 0; i < length; i++){
+            totalPrice += fillNativeOrder(_orderIds[i], _amounts[i]);
+        }
+        receiveBatchPayment(totalPrice, _maxTotalPrice);
+    }
+
+    // Buy _creditsAmount credits of a project vintage from candidate orders priced in the native coin, filled in the given
+    // order so buyers pass them cheapest first (see getTokenOrders). Candidates that were filled, closed or expired
+    // in the meantime are skipped.
+    function sweepTokenOrders(
+        uint256 _tokenId, 
+        uint256[] calldata _orderIds, 
+        uint256 _creditsAmount, 
+        uint256 _maxTotalPrice
+    ) external payable whenNotPaused nonReentrant {
+        uint256 remaining = _creditsAmount;
+        uint256 totalPrice;
+        for(uint256 i = 0; i < _orderIds.length && remaining > 0; i++){
+            TradeOrder memory order = tradeOrders[_orderIds[i]];
+            if(!order.isActive || order.tokenId != _tokenId || order.paymentToken != address(0) 
+                || order.expirationTimestamp < block.timestamp)
+                continue;
+            uint256 amount = remaining < order.creditsAmount ? remaining : order.creditsAmount;
+            totalPrice += fillNativeOrder(_orderIds[i], amount);
+            remaining -= amount;
+        }
+        if(remaining > 0) revert InsufficientLiquidity(remaining);
+        receiveBatchPayment(totalPrice, _maxTotalPrice);
+    }
+
+    function fillNativeOrder(uint256 _orderId, uint256 _amount) private returns(uint256) {
+        (TradeOrder memory order, uint256 fillPrice) = fillOrder(_orderId, _amount, true);
+        if(order.paymentToken != address(0))
+            revert UnsupportedPaymentToken(order.paymentToken);
+        return fillPrice;
+    }
+
+    function receiveBatchPayment(uint256 _totalPrice, uint256 _maxTotalPrice) private {
+        if(_totalPrice > _maxTotalPrice) revert SlippageExceeded(_totalPrice, _maxTotalPrice);
+        receivePayment(address(0), _totalPrice);
+    }
+
+    function buyFromOrder(uint256 _orderId, uint256 _amount, bool _deliverCredits) private returns(uint256) {
+        (TradeOrder memory order, uint256 fillPrice) = fillOrder(_orderId, _amount, _deliverCredits);
+        // Take payment from buyer and refund excess
+        receivePayment(order.paymentToken, fillPrice);
+        return order.tokenId;
+    }
+
+    // Fill a trade order for msg.sender, credits stay in the marketplace when _deliverCredits is false.
+    // Payment has to be taken by the caller.
+    function fillOrder(
+        uint256 _orderId, 
+        uint256 _amount, 
+        bool _deliverCredits
+    ) private returns(TradeOrder memory order, uint256 fillPrice) {
+        order = tradeOrders[_orderId];
         // Initial checks
         if(!order.isActive) revert InactiveOrder(_orderId); // Revert if order is inactive
         if(order.isActive && order.expirationTimestamp < block.timestamp){  // Revert and change order statuses if order is active but expired
             closeOrder(_orderId);
-            emit ExpiredOrderClosed(_orderId, order.seller, order.projectId, order.creditsAmount, order.orderPrice);
+            emit ExpiredOrderClosed(_orderId, order.seller, order.tokenId, order.creditsAmount, order.orderPrice);
             revert ExpiredOrder(_orderId); // Would this also revert the changes made by closeOrder function?
-        } 
-        if(msg.value < order.orderPrice) revert InsufficientPayment();  // Revert if sender did not include enough value
+        }
+        if(_amount == 0 || _amount > order.creditsAmount) revert InvalidAmount(_amount);
+        requireAuditedProject(order.tokenId);
 
-        // Modify order state
-        tradeOrders[_orderId].isActive = false;
-        tradeOrders[_orderId].expirationTimestamp = 0;
-        
+        // Order price is always creditsAmount * price per credit, so the division is exact
+        fillPrice = order.orderPrice / order.creditsAmount * _amount;
+
+        // Modify order state, order stays active until all credits are sold
         unchecked{
-            // Calculate platform fee and seller proceeds
-            uint256 platformFee = order.orderPrice * platformFeeBasisPoints / BIPS_DENOMINATOR;
-            uint256 sellerProceeds = order.orderPrice - platformFee;
-
-            // Transfer credits from contract to buyer
-            carbonToken.safeTransferFrom(address(this), msg.sender, _orderId, order.creditsAmount, "");
-
-            // Update account balances of seller and current address
-            accountBalances[order.seller] += sellerProceeds;
-            accountBalances[address(this)] += platformFee;
-
-            // Refund excess
-            uint256 refundAmount = msg.value - order.orderPrice;
-            if (refundAmount > 0) {
-                (bool refundSent,) = payable(msg.sender).call{value: refundAmount}("");
-                if (!refundSent) revert RefundFailed();
-            }
-            // emit event
-            emit OrderFilled(msg.sender, order.seller, _orderId, order.creditsAmount, order.orderPrice);
+            tradeOrders[_orderId].creditsAmount = order.creditsAmount - _amount;
+            tradeOrders[_orderId].orderPrice = order.orderPrice - fillPrice;
         }
+        if(_amount == order.creditsAmount)
+            deactivateOrder(_orderId, order);
+
+        // Transfer credits from contract to buyer
+        if(_deliverCredits)
+            carbonToken.safeTransferFrom(address(this), msg.sender, order.tokenId, _amount, "");
+
+        // Update account balances of seller and current address
+        creditTradeProceeds(_orderId, order.paymentToken, msg.sender, order.seller, order.tokenId, fillPrice);
+
+        // emit event
+        emit OrderFilled(msg.sender, order.seller, _orderId, _amount, fillPrice);
     }
 
     // Cancel an existing sell order
@@ -153,22 +390,43 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
         if(!order.isActive) revert InactiveOrder(_orderId);
         if(order.seller != msg.sender) revert NotOrderOwner();
         closeOrder(_orderId);        
-        emit OrderClosed(_orderId, msg.sender, order.projectId, order.creditsAmount, order.orderPrice);
+        emit OrderClosed(_orderId, msg.sender, order.tokenId, order.creditsAmount, order.orderPrice);
+    }
+
+    // Push back the expiration of an active order, at most maxOrderDuration from now
+    function extendSellOrder(uint256 _orderId, uint256 _extension) external whenNotPaused {
+        TradeOrder memory order = activeSellerOrder(_orderId);
+        uint256 newExpirationTimestamp = order.expirationTimestamp + _extension;
+        if(_extension == 0 || newExpirationTimestamp > block.timestamp + maxOrderDuration)
+            revert InvalidDuration(_extension);
+        tradeOrders[_orderId].expirationTimestamp = newExpirationTimestamp;
+        emit OrderUpdated(_orderId, order.creditsAmount, order.orderPrice, newExpirationTimestamp);
+    }
+
+    // Change the price per credit of an active order
+    function updateSellOrderPrice(uint256 _orderId, uint256 _pricePerCredit) external whenNotPaused {
+        TradeOrder memory order = activeSellerOrder(_orderId);
+        if(_pricePerCredit == 0) 
+            revert InvalidPrice(_pricePerCredit);
+        uint256 newOrderPrice = order.creditsAmount * _pricePerCredit;
+        tradeOrders[_orderId].orderPrice = newOrderPrice;
+        emit OrderUpdated(_orderId, order.creditsAmount, newOrderPrice, order.expirationTimestamp);
+    }
+
+    // Load an order that msg.sender can still modify
+    function activeSellerOrder(uint256 _orderId) private view returns(TradeOrder memory order) {
+        order = tradeOrders[_orderId];
+        if(!order.isActive) revert InactiveOrder(_orderId);
+        if(order.seller != msg.sender) revert NotOrderOwner();
+        if(order.expirationTimestamp < block.timestamp) revert ExpiredOrder(_orderId);
     }
 
     function closeExpiredOrder(uint256 _orderId) external {
         TradeOrder memory order = tradeOrders[_orderId];
         if(order.isActive && block.timestamp > order.expirationTimestamp){
             closeOrder(_orderId);
-            unchecked{
-                uint256 callerProceeds = order.orderPrice * closeExpiredOrderReward / BIPS_DENOMINATOR; // Pay caller
-                uint256 contractBalance = accountBalances[address(this)];
-                if(contractBalance < callerProceeds)
-                    revert InsufficientBalance(callerProceeds);
-                accountBalances[address(this)] -= callerProceeds;
-                accountBalances[msg.sender] += callerProceeds;
-            }
-            emit ExpiredOrderClosed(_orderId, order.seller, order.projectId, order.creditsAmount, order.orderPrice);
+            payCloseReward(order.paymentToken, order.orderPrice);
+            emit ExpiredOrderClosed(_orderId, order.seller, order.tokenId, order.creditsAmount, order.orderPrice);
         }
         emit OrderNotExpired(_orderId);
     }
@@ -177,17 +435,13 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
         uint256 length = _orderIds.length;
         uint256[] memory expiredOrders = new uint256[](length);
         uint256 expiredCount;
-        uint callerPayout;
-        uint256 contractBalance = accountBalances[address(this)];
         for(uint256 i = 0; i < length; i++){
             uint256 id = _orderIds[i];
             TradeOrder memory order = tradeOrders[id];
             if(order.isActive && block.timestamp > order.expirationTimestamp){
                 closeOrder(id);
+                payCloseReward(order.paymentToken, order.orderPrice); // Orders can be priced in different tokens
                 unchecked{
-                    callerPayout += order.orderPrice * closeExpiredOrderReward / BIPS_DENOMINATOR; // Pay caller
-                    if(contractBalance < callerPayout)
-                        revert InsufficientBalance(callerPayout);
                     expiredOrders[expiredCount] = id;
                     expiredCount++;
                 }
@@ -196,19 +450,322 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
                 emit OrderNotExpired(id);
             }
         }
-        if(callerPayout > 0)
-        {
-            accountBalances[address(this)] -= callerPayout;
-            accountBalances[msg.sender] += callerPayout;
-        }
         emit BatchExpiredOrdersClosed(expiredOrders);
     }
 
+    // Anyone can close the orders of a project that is no longer audited, e.g. suspended or revoked
+    function closeInvalidatedOrder(uint256 _orderId) external nonReentrant {
+        TradeOrder memory order = tradeOrders[_orderId];
+        if(!order.isActive) revert InactiveOrder(_orderId);
+        uint256 projectId = carbonToken.getProjectId(order.tokenId);
+        if(projectRegistry.isProjectAudited(projectId))
+            revert ProjectStillAudited(projectId);
+        closeOrder(_orderId);
+        emit InvalidatedOrderClosed(_orderId, order.seller, order.tokenId, order.creditsAmount, order.orderPrice);
+    }
+
+    // Credits of projects that are no longer audited can't be listed, bid on or bought, open orders can only be closed.
+    // The auction house applies the same check.
+    function requireAuditedProject(uint256 _tokenId) public view {
+        // Buffer credits back reversals and stay with the buffer pool
+        if(carbonToken.getVintage(_tokenId) == carbonToken.BUFFER_VINTAGE())
+            revert BufferCreditsNotTradable(_tokenId);
+        uint256 projectId = carbonToken.getProjectId(_tokenId);
+        if(!projectRegistry.isProjectAudited(projectId))
+            revert ProjectNotAudited(projectId);
+    }
+
     function closeOrder(uint256 _orderId) private {
+        TradeOrder memory order = tradeOrders[_orderId];
+        deactivateOrder(_orderId, order);
+        carbonToken.returnEscrow(order.seller, order.tokenId, order.creditsAmount);
+    }
+
+    function deactivateOrder(uint256 _orderId, TradeOrder memory _order) private {
         tradeOrders[_orderId].isActive = false;
         tradeOrders[_orderId].expirationTimestamp = 0;
-        TradeOrder memory order = tradeOrders[_orderId];
-        carbonToken.safeTransferFrom(address(this), order.seller, order.projectId, order.creditsAmount, "");
+        activeOrderIds.remove(_orderId);
+        tokenOrderIds[_order.tokenId].remove(_orderId);
+        sellerOrderIds[_order.seller].remove(_orderId);
+    }
+
+    // Create a buy order by escrowing ETH for carbon credits of a project vintage
+    function createBuyOrder(
+        uint256 _tokenId, 
+        uint256 _amount, 
+        uint256 _pricePerCredit
+    ) external payable whenNotPaused nonReentrant {
+        openBuyOrder(_tokenId, _amount, _pricePerCredit, address(0));
+    }
+
+    // Create a buy order by escrowing an allowed ERC-20 token
+    function createTokenBuyOrder(
+        uint256 _tokenId, 
+        uint256 _amount, 
+        uint256 _pricePerCredit,
+        address _paymentToken
+    ) external whenNotPaused nonReentrant {
+        if(!allowedPaymentTokens[_paymentToken])
+            revert PaymentTokenNotAllowed(_paymentToken);
+        openBuyOrder(_tokenId, _amount, _pricePerCredit, _paymentToken);
+    }
+
+    function openBuyOrder(
+        uint256 _tokenId, 
+        uint256 _amount, 
+        uint256 _pricePerCredit,
+        address _paymentToken
+    ) private {
+        uint256 projectId = carbonToken.getProjectId(_tokenId);
+        if(!projectRegistry.projectExists(projectId))
+            revert ProjectNotFound(projectId);
+        requireAuditedProject(_tokenId);
+        if(_pricePerCredit == 0) 
+            revert InvalidPrice(_pricePerCredit);
+        if(_amount == 0)
+            revert InvalidAmount(_amount);
+        uint256 totalPrice = _amount * _pricePerCredit;
+        uint256 buyOrderId = nextBuyOrderId++;
+
+        buyOrders[buyOrderId] = BuyOrder({
+            buyer: msg.sender,
+            tokenId: _tokenId,
+            creditsAmount: _amount,
+            orderPrice: totalPrice,
+            isActive: true,
+            expirationTimestamp: block.timestamp + ORDER_EXPIRATION_PERIOD,
+            paymentToken: _paymentToken
+        });
+
+        emit BuyOrderCreated(
+            buyOrderId, 
+            msg.sender, 
+            _tokenId, 
+            _amount, 
+            totalPrice
+        );
+
+        // Escrow payment and refund excess
+        receivePayment(_paymentToken, totalPrice);
+    }
+
+    // Sell credits into a buy order, the order can be filled partially
+    function fillBuyOrder(uint256 _buyOrderId, uint256 _amount) external whenNotPaused nonReentrant {
+        BuyOrder memory order = buyOrders[_buyOrderId];
+        if(!order.isActive) revert InactiveOrder(_buyOrderId);
+        if(order.expirationTimestamp < block.timestamp) revert ExpiredOrder(_buyOrderId);
+        if(_amount == 0 || _amount > order.creditsAmount) revert InvalidAmount(_amount);
+        if(!carbonToken.isApprovedForAll(msg.sender, address(this))) 
+            revert TransferNotApproved();
+        if(_amount > carbonToken.balanceOf(msg.sender, order.tokenId)) 
+            revert InsufficientBalance(_amount);
+        requireAuditedProject(order.tokenId);
+
+        // Order price is always creditsAmount * price per credit, so the division is exact
+        uint256 fillPrice = order.orderPrice / order.creditsAmount * _amount;
+
+        unchecked{
+            buyOrders[_buyOrderId].creditsAmount = order.creditsAmount - _amount;
+            buyOrders[_buyOrderId].orderPrice = order.orderPrice - fillPrice;
+        }
+        if(_amount == order.creditsAmount){
+            buyOrders[_buyOrderId].isActive = false;
+            buyOrders[_buyOrderId].expirationTimestamp = 0;
+        }
+
+        // Transfer credits from seller to buyer
+        carbonToken.safeTransferFrom(msg.sender, order.buyer, order.tokenId, _amount, "");
+
+        // Pay seller from the escrowed payment
+        creditTradeProceeds(_buyOrderId, order.paymentToken, order.buyer, msg.sender, order.tokenId, fillPrice);
+        emit BuyOrderFilled(msg.sender, order.buyer, _buyOrderId, _amount, fillPrice);
+    }
+
+    // Cancel an existing buy order and refund the escrowed payment
+    function removeBuyOrder(uint256 _buyOrderId) external whenNotPaused nonReentrant {
+        BuyOrder memory order = buyOrders[_buyOrderId];
+        if(!order.isActive) revert InactiveOrder(_buyOrderId);
+        if(order.buyer != msg.sender) revert NotOrderOwner();
+        closeBuyOrder(_buyOrderId);
+        emit BuyOrderClosed(_buyOrderId, msg.sender, order.tokenId, order.creditsAmount, order.orderPrice);
+    }
+
+    function closeExpiredBuyOrder(uint256 _buyOrderId) external nonReentrant {
+        BuyOrder memory order = buyOrders[_buyOrderId];
+        if(order.isActive && block.timestamp > order.expirationTimestamp){
+            closeBuyOrder(_buyOrderId);
+            payCloseReward(order.paymentToken, order.orderPrice);
+            emit ExpiredBuyOrderClosed(_buyOrderId, order.buyer, order.tokenId, order.creditsAmount, order.orderPrice);
+            return;
+        }
+        emit OrderNotExpired(_buyOrderId);
+    }
+
+    function closeBuyOrder(uint256 _buyOrderId) private {
+        BuyOrder memory order = buyOrders[_buyOrderId];
+        buyOrders[_buyOrderId].isActive = false;
+        buyOrders[_buyOrderId].expirationTimestamp = 0;
+        sendPayment(order.paymentToken, order.buyer, order.orderPrice);
+    }
+
+    // Buy credits from an order the seller signed off-chain
+    function fillSignedOrder(
+        SignedOrder calldata _order, 
+        bytes calldata _signature, 
+        uint256 _amount
+    ) external payable whenNotPaused nonReentrant {
+        bytes32 orderHash = getSignedOrderHash(_order);
+        if(ECDSA.recover(orderHash, _signature) != _order.seller)
+            revert InvalidSignature();
+        if(cancelledSignedOrders[orderHash] || _order.nonce != signedOrderNonces[_order.seller])
+            revert CancelledOrder(orderHash);
+        if(_order.expirationTimestamp < block.timestamp)
+            revert ExpiredSignedOrder(orderHash);
+        if(_order.pricePerCredit == 0)
+            revert InvalidPrice(_order.pricePerCredit);
+        if(_order.paymentToken != address(0) && !allowedPaymentTokens[_order.paymentToken])
+            revert PaymentTokenNotAllowed(_order.paymentToken);
+        requireAuditedProject(_order.tokenId);
+        uint256 filled = signedOrderFills[orderHash];
+        if(_amount == 0 || _amount > _order.creditsAmount - filled)
+            revert InvalidAmount(_amount);
+        if(!carbonToken.isApprovedForAll(_order.seller, address(this)))
+            revert TransferNotApproved();
+
+        signedOrderFills[orderHash] = filled + _amount;
+        uint256 fillPrice = _amount * _order.pricePerCredit;
+
+        // Transfer credits straight from seller to buyer
+        carbonToken.safeTransferFrom(_order.seller, msg.sender, _order.tokenId, _amount, "");
+        creditTradeProceeds(uint256(orderHash), _order.paymentToken, msg.sender, _order.seller, _order.tokenId, fillPrice);
+        receivePayment(_order.paymentToken, fillPrice);
+        emit SignedOrderFilled(msg.sender, _order.seller, orderHash, _amount, fillPrice);
+    }
+
+    // Cancel a single signed order
+    function cancelSignedOrder(SignedOrder calldata _order) external {
+        if(_order.seller != msg.sender) revert NotOrderOwner();
+        bytes32 orderHash = getSignedOrderHash(_order);
+        cancelledSignedOrders[orderHash] = true;
+        emit SignedOrderCancelled(msg.sender, orderHash);
+    }
+
+    // Cancel every order signed with the current nonce
+    function incrementSignedOrderNonce() external {
+        uint256 newNonce = ++signedOrderNonces[msg.sender];
+        emit SignedOrderNonceIncremented(msg.sender, newNonce);
+    }
+
+    // EIP-712 digest the seller signs
+    function getSignedOrderHash(SignedOrder calldata _order) public view returns(bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            SIGNED_ORDER_TYPEHASH,
+            _order.seller,
+            _order.tokenId,
+            _order.creditsAmount,
+            _order.pricePerCredit,
+            _order.paymentToken,
+            _order.nonce,
+            _order.expirationTimestamp
+        )));
+    }
+
+    // Take payment for _amount from msg.sender, excess native coin is refunded
+    function receivePayment(address _paymentToken, uint256 _amount) private {
+        if(_paymentToken == address(0)){
+            if(msg.value < _amount) revert InsufficientPayment();  // Revert if sender did not include enough value
+            unchecked{
+                uint256 refundAmount = msg.value - _amount;
+                if (refundAmount > 0) {
+                    (bool refundSent,) = payable(msg.sender).call{value: refundAmount}("");
+                    if (!refundSent) revert RefundFailed();
+                }
+            }
+        } else {
+            if(msg.value > 0) revert NativePaymentNotAccepted();
+            IERC20(_paymentToken).safeTransferFrom(msg.sender, address(this), _amount);
+        }
+    }
+
+    function sendPayment(address _paymentToken, address _to, uint256 _amount) private {
+        if(_paymentToken == address(0)){
+            (bool transferSuccessful,) = payable(_to).call{value: _amount}("");
+            if(!transferSuccessful)
+                revert TransferFailed();
+        } else {
+            IERC20(_paymentToken).safeTransfer(_to, _amount);
+        }
+    }
+
+    // Split the price of a trade between the seller, the platform fee and the project owner royalty.
+    // _orderId is the sell or buy order ID, or the order hash of signed orders.
+    function creditTradeProceeds(
+        uint256 _orderId,
+        address _paymentToken, 
+        address _buyer, 
+        address _seller, 
+        uint256 _tokenId, 
+        uint256 _price
+    ) private {
+        (address royaltyReceiver, uint256 royalty) = carbonToken.royaltyInfo(_tokenId, _price);
+        uint256 feeBasisPoints = address(feeSchedule) == address(0)
+            ? platformFeeBasisPoints
+            : feeSchedule.recordTrade(_buyer, _seller, _tokenId, _paymentToken, _price);
+        unchecked{
+            // Fee and royalty are both capped at 10% so the seller proceeds cannot underflow
+            uint256 platformFee = _price * feeBasisPoints / BIPS_DENOMINATOR;
+            uint256 sellerProceeds = _price - platformFee - royalty;
+            creditAccountBalance(_paymentToken, _seller, sellerProceeds);
+            creditAccountBalance(_paymentToken, address(this), platformFee);
+            if(royalty > 0)
+                creditAccountBalance(_paymentToken, royaltyReceiver, royalty);
+            emit TradeProceedsSplit(
+                _tokenId, _seller, royaltyReceiver, _orderId, _buyer, _price, platformFee, royalty, sellerProceeds
+            );
+        }
+    }
+
+    // Pay the caller a reward for closing an expired order out of the keeper reserve of the order's payment token.
+    // A short reserve pays what it has, closing an order never depends on the reserve.
+    function payCloseReward(address _paymentToken, uint256 _orderPrice) private {
+        unchecked{
+            uint256 callerProceeds = _orderPrice * closeExpiredOrderReward / BIPS_DENOMINATOR;
+            uint256 reserve = keeperRewardReserves[_paymentToken];
+            if(reserve < callerProceeds)
+                callerProceeds = reserve;
+            keeperRewardReserves[_paymentToken] = reserve - callerProceeds;
+            keeperRewardsPaid[_paymentToken] += callerProceeds;
+            creditAccountBalance(_paymentToken, msg.sender, callerProceeds);
+        }
+    }
+
+    // Anyone can top up the keeper reserve, in native coin (msg.value) or in an ERC-20 payment token
+    function fundKeeperRewards(address _paymentToken, uint256 _amount) external payable nonReentrant {
+        if(_paymentToken == address(0))
+            _amount = msg.value;
+        else
+            receivePayment(_paymentToken, _amount);
+        keeperRewardReserves[_paymentToken] += _amount;
+        emit KeeperRewardsFunded(_paymentToken, msg.sender, _amount);
+    }
+
+    // Send all accrued platform fees of a payment token to the fee treasury
+    function withdrawFees(address _paymentToken) external nonReentrant returns(uint256 accruedFees) {
+        if(msg.sender != feeTreasury)
+            revert NotFeeTreasury();
+        mapping(address => uint256) storage balances = accountLedger(_paymentToken);
+        accruedFees = balances[address(this)];
+        balances[address(this)] = 0;
+        sendPayment(_paymentToken, msg.sender, accruedFees);
+        emit FeesWithdrawn(_paymentToken, msg.sender, accruedFees);
+    }
+
+    function creditAccountBalance(address _paymentToken, address _account, uint256 _amount) private {
+        accountLedger(_paymentToken)[_account] += _amount;
+    }
+
+    function accountLedger(address _paymentToken) private view returns(mapping(address => uint256) storage) {
+        return _paymentToken == address(0) ? accountBalances : tokenAccountBalances[_paymentToken];
     }
 
     function withdrawAccountBalance(address _to, uint256 _withdrawAmount) public {
@@ -220,26 +777,140 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
         if(!transferSuccessful)
             revert TransferFailed();
     }
-    
+
+    function withdrawTokenBalance(address _paymentToken, address _to, uint256 _withdrawAmount) public nonReentrant {
+        uint256 _accountBalance = tokenAccountBalances[_paymentToken][msg.sender];
+        if(_accountBalance < _withdrawAmount)
+            revert InsufficientBalance(_accountBalance);
+        tokenAccountBalances[_paymentToken][msg.sender] -= _withdrawAmount;
+        IERC20(_paymentToken).safeTransfer(_to, _withdrawAmount);
+    }
+
+    // Active orders, including expired orders that have not been closed yet
+    function getActiveOrders(uint256 _offset, uint256 _limit) 
+        external 
+        view 
+        returns(uint256 total, uint256[] memory orderIds, TradeOrder[] memory orders) 
+    {
+        return paginateOrders(activeOrderIds, _offset, _limit);
+    }
+
+    function getTokenOrders(uint256 _tokenId, uint256 _offset, uint256 _limit) 
+        external 
+        view 
+        returns(uint256 total, uint256[] memory orderIds, TradeOrder[] memory orders) 
+    {
+        return paginateOrders(tokenOrderIds[_tokenId], _offset, _limit);
+    }
+
+    function getSellerOrders(address _seller, uint256 _offset, uint256 _limit) 
+        external 
+        view 
+        returns(uint256 total, uint256[] memory orderIds, TradeOrder[] memory orders) 
+    {
+        return paginateOrders(sellerOrderIds[_seller], _offset, _limit);
+    }
+
+    // Cheapest unexpired order of a project vintage in the given payment token
+    function getBestPrice(uint256 _tokenId, address _paymentToken) 
+        external 
+        view 
+        returns(uint256 bestOrderId, uint256 bestPricePerCredit) 
+    {
+        EnumerableSet.UintSet storage orderIds = tokenOrderIds[_tokenId];
+        uint256 length = orderIds.length();
+        for(uint256 i = 0; i < length; i++){
+            uint256 id = orderIds.at(i);
+            TradeOrder memory order = tradeOrders[id];
+            if(order.paymentToken != _paymentToken || order.expirationTimestamp < block.timestamp)
+                continue;
+            uint256 pricePerCredit = order.orderPrice / order.creditsAmount;
+            if(bestPricePerCredit == 0 || pricePerCredit < bestPricePerCredit){
+                bestOrderId = id;
+                bestPricePerCredit = pricePerCredit;
+            }
+        }
+        if(bestPricePerCredit == 0)
+            revert NoActiveOrders(_tokenId);
+    }
+
+    function paginateOrders(EnumerableSet.UintSet storage _orderIds, uint256 _offset, uint256 _limit) 
+        private 
+        view 
+        returns(uint256 total, uint256[] memory orderIds, TradeOrder[] memory orders) 
+    {
+        total = _orderIds.length();
+        uint256 count = _offset < total ? total - _offset : 0;
+        if(count > _limit) count = _limit;
+        orderIds = new uint256[](count);
+        orders = new TradeOrder[](count);
+        for(uint256 i = 0; i < count; i++){
+            orderIds[i] = _orderIds.at(_offset + i);
+            orders[i] = tradeOrders[orderIds[i]];
+        }
+    }
+
+    error BufferCreditsNotTradable(uint256 tokenId);
+    error CancelledOrder(bytes32 orderHash);
     error ExpiredOrder(uint256 orderId);
+    error ExpiredSignedOrder(bytes32 orderHash);
     error InactiveOrder(uint256 orderId);
     error InsufficientBalance(uint256 amount);
+    error InsufficientLiquidity(uint256 missingCredits);
     error InsufficientPayment();
     error InvalidAmount(uint256 amount);
+    error InvalidDuration(uint256 duration);
     error InvalidPrice(uint256 price);
+    error InvalidSignature();
+    error MismatchingArrayLengths();
+    error NativePaymentNotAccepted();
+    error NoActiveOrders(uint256 tokenId);
+    error NotFeeTreasury();
     error NotOrderOwner();
+    error NotPauseGuardian();
+    error PaymentTokenNotAllowed(address paymentToken);
+    error ProjectNotAudited(uint256 projectId);
+    error ProjectNotFound(uint256 projectId);
+    error ProjectStillAudited(uint256 projectId);
     error RefundFailed();
+    error SlippageExceeded(uint256 totalPrice, uint256 maxTotalPrice);
     error TradingIsPaused();
     error TransferFailed();
     error TransferNotApproved();
+    error UnsupportedPaymentToken(address paymentToken);
 
     event BatchExpiredOrdersClosed(uint256[] orderIds);
+    event BuyOrderCreated(
+        uint256 indexed buyOrderId, 
+        address indexed buyer, 
+        uint256 indexed tokenId, 
+        uint256 creditsAmount,
+        uint256 orderPrice
+    );
+    event BuyOrderFilled(
+        address indexed seller, 
+        address indexed buyer,
+        uint256 indexed buyOrderId, 
+        uint256 amountFilled, 
+        uint256 totalPrice
+    );
+    event BuyOrderClosed(
+        uint256 indexed buyOrderId, 
+        address indexed closedBy, 
+        uint256 indexed tokenId, 
+        uint256 creditsAmount,
+        uint256 orderPrice 
+    );
     event FallbackCalled(address sender, uint256 value, bytes data);
+    event FeeScheduleUpdated(address feeSchedule);
+    event FeeTreasuryUpdated(address feeTreasury);
+    event FeesWithdrawn(address indexed paymentToken, address indexed feeTreasury, uint256 amount);
+    event KeeperRewardsFunded(address indexed paymentToken, address indexed funder, uint256 amount);
     event MarketplacePauseStatusChanged(bool isPaused);
     event OrderCreated(
         uint256 indexed orderId, 
         address indexed seller, 
-        uint256 indexed projectId, 
+        uint256 indexed tokenId, 
         uint256 creditsAmount,
         uint256 orderPrice
     );
@@ -253,17 +924,60 @@ contract CarbonCreditMarketplace is Ownable, ReentrancyGuard, ERC1155Holder  {
     event OrderClosed(
         uint256 indexed orderId, 
         address indexed closedBy, 
-        uint256 indexed projectId, 
+        uint256 indexed tokenId, 
+        uint256 creditsAmount,
+        uint256 orderPrice 
+    );
+    event ExpiredBuyOrderClosed(
+        uint256 indexed buyOrderId, 
+        address indexed buyer, 
+        uint256 indexed tokenId, 
         uint256 creditsAmount,
         uint256 orderPrice 
     );
     event ExpiredOrderClosed(
         uint256 indexed orderId, 
         address indexed seller, 
-        uint256 indexed projectId, 
+        uint256 indexed tokenId, 
+        uint256 creditsAmount,
+        uint256 orderPrice 
+    );
+    event InvalidatedOrderClosed(
+        uint256 indexed orderId, 
+        address indexed seller, 
+        uint256 indexed tokenId, 
         uint256 creditsAmount,
         uint256 orderPrice 
     );
+    event OrderDurationBoundsUpdated(uint256 minDuration, uint256 maxDuration);
     event OrderNotExpired(uint256 orderId);
+    event OrderUpdated(
+        uint256 indexed orderId, 
+        uint256 creditsAmount,
+        uint256 orderPrice,
+        uint256 expirationTimestamp
+    );
+    event PauseGuardianUpdated(address pauseGuardian);
+    event PaymentTokenAllowed(address indexed paymentToken, bool allowed);
     event PlatformFeeUpdated(uint256 newFeeBasisPoints);
+    event SignedOrderCancelled(address indexed seller, bytes32 indexed orderHash);
+    event SignedOrderFilled(
+        address indexed buyer, 
+        address indexed seller,
+        bytes32 indexed orderHash, 
+        uint256 amountFilled, 
+        uint256 totalPrice
+    );
+    event SignedOrderNonceIncremented(address indexed seller, uint256 newNonce);
+    event TradeProceedsSplit(
+        uint256 indexed tokenId,
+        address indexed seller,
+        address indexed royaltyReceiver,
+        uint256 orderId,            // Sell or buy order ID, or the order hash of signed orders
+        address buyer,
+        uint256 totalPrice,
+        uint256 platformFee,
+        uint256 royalty,
+        uint256 sellerProceeds
+    );
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./CarbonCreditToken.sol";
+import "./CarbonProjectRegistry.sol";
+
+// Basket of credits from different projects, every deposited credit mints one fungible pool token (1 tonne)
+contract CarbonCreditPool is ERC20, Ownable, ReentrancyGuard, ERC1155Holder {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    uint16 private constant BIPS_DENOMINATOR = 10000;
+    uint16 public constant MAX_REDEEM_FEE_BASIS_POINTS = 1000; // 10%
+    // Fee on redemptions of specific credits, paid in pool tokens on top of the redeemed amount
+    uint16 public redeemFeeBasisPoints;
+    address public feeRecipient;
+
+    CarbonCreditToken public carbonToken;
+    CarbonProjectRegistry public projectRegistry;
+    // Only credits of audited projects matching the criteria can be deposited
+    struct PoolCriteria {
+        uint16 minVintage;
+        uint16 maxVintage;
+        uint256 minAuditDate;       // Earliest authenticationDate of the project
+    }
+    PoolCriteria public criteria;
+    // Token IDs the pool currently holds credits of
+    EnumerableSet.UintSet private pooledTokenIds;
+
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        address _carbonTokenAddress,
+        address _projectRegistryAddress,
+        address _initialOwner,
+        PoolCriteria memory _criteria
+    ) ERC20(_name, _symbol) Ownable(_initialOwner) {
+        carbonToken = CarbonCreditToken(_carbonTokenAddress);
+        projectRegistry = CarbonProjectRegistry(_projectRegistryAddress);
+        feeRecipient = _initialOwner;
+        setCriteria(_criteria);
+    }
+
+    // Credits are whole tonnes, so is the pool token
+    function decimals() public pure override returns(uint8) {
+        return 0;
+    }
+
+    function updatePoolCriteria(PoolCriteria calldata _criteria) external onlyOwner {
+        setCriteria(_criteria);
+    }
+
+    function setCriteria(PoolCriteria memory _criteria) private {
+        // Buffer credits (vintage 0) back reversals and can't be pooled
+        if(_criteria.minVintage == carbonToken.BUFFER_VINTAGE() || _criteria.minVintage > _criteria.maxVintage)
+            revert InvalidVintageRange(_criteria.minVintage, _criteria.maxVintage);
+        criteria = _criteria;
+        emit PoolCriteriaUpdated(_criteria.minVintage, _criteria.maxVintage, _criteria.minAuditDate);
+    }
+
+    function updateRedeemFee(uint16 _redeemFeeBasisPoints) external onlyOwner {
+        if(_redeemFeeBasisPoints > MAX_REDEEM_FEE_BASIS_POINTS)
+            revert InvalidRedeemFee(_redeemFeeBasisPoints);
+        redeemFeeBasisPoints = _redeemFeeBasisPoints;
+        emit RedeemFeeUpdated(_redeemFeeBasisPoints);
+    }
+
+    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientUpdated(_feeRecipient);
+    }
+
+    function isEligible(uint256 _tokenId) public view returns(bool) {
+        uint256 projectId = carbonToken.getProjectId(_tokenId);
+        uint16 vintage = carbonToken.getVintage(_tokenId);
+        if(!projectRegistry.projectExists(projectId) || !projectRegistry.isProjectAudited(projectId))
+            return false;
+        if(vintage < criteria.minVintage || vintage > criteria.maxVintage)
+            return false;
+        (, , , uint256 authenticationDate, , , ) = projectRegistry.projects(projectId);
+        return authenticationDate >= criteria.minAuditDate;
+    }
+
+    // Deposit credits and receive the same amount of pool tokens
+    function deposit(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        if(_amount == 0)
+            revert InvalidAmount();
+        if(!isEligible(_tokenId))
+            revert IneligibleCredits(_tokenId);
+
+        pooledTokenIds.add(_tokenId);
+        carbonToken.safeTransferFrom(msg.sender, address(this), _tokenId, _amount, "");
+        _mint(msg.sender, _amount);
+        emit CreditsDeposited(msg.sender, _tokenId, _amount);
+    }
+
+    // Burn pool tokens for specific underlying credits, the fee is charged on top of _amount
+    function redeem(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        uint256 fee = getRedeemFee(_amount);
+        burnPoolTokens(_tokenId, _amount);
+        if(fee > 0)
+            _transfer(msg.sender, feeRecipient, fee);
+
+        carbonToken.safeTransferFrom(address(this), msg.sender, _tokenId, _amount, "");
+        emit CreditsRedeemed(msg.sender, _tokenId, _amount, fee);
+    }
+
+    // Burn pool tokens and retire the underlying credits in the caller's name, retiring is free
+    function retire(
+        uint256 _tokenId,
+        uint256 _amount,
+        string calldata _beneficiary,
+        string calldata _description
+    )
+        external
+        nonReentrant
+    {
+        burnPoolTokens(_tokenId, _amount);
+        carbonToken.retireCreditsOnBehalf(msg.sender, _tokenId, _amount, _beneficiary, _description);
+        emit CreditsRetiredFromPool(msg.sender, _tokenId, _amount);
+    }
+
+    function burnPoolTokens(uint256 _tokenId, uint256 _amount) private {
+        if(_amount == 0)
+            revert InvalidAmount();
+        uint256 pooledCredits = carbonToken.balanceOf(address(this), _tokenId);
+        if(pooledCredits < _amount)
+            revert InsufficientPooledCredits(_tokenId, pooledCredits);
+        if(pooledCredits == _amount)
+            pooledTokenIds.remove(_tokenId);
+        _burn(msg.sender, _amount);
+    }
+
+    // Rounded up, pool tokens have no decimals so small redemptions would otherwise be free
+    function getRedeemFee(uint256 _amount) public view returns(uint256) {
+        return Math.mulDiv(_amount, redeemFeeBasisPoints, BIPS_DENOMINATOR, Math.Rounding.Ceil);
+    }
+
+    function getPooledTokenIds() external view returns(uint256[] memory) {
+        return pooledTokenIds.values();
+    }
+
+    error IneligibleCredits(uint256 tokenId);
+    error InsufficientPooledCredits(uint256 tokenId, uint256 pooledCredits);
+    error InvalidAmount();
+    error InvalidRedeemFee(uint16 redeemFeeBasisPoints);
+    error InvalidVintageRange(uint16 minVintage, uint16 maxVintage);
+
+    event CreditsDeposited(address indexed depositor, uint256 indexed tokenId, uint256 amount);
+    event CreditsRedeemed(address indexed redeemer, uint256 indexed tokenId, uint256 amount, uint256 fee);
+    event CreditsRetiredFromPool(address indexed retiree, uint256 indexed tokenId, uint256 amount);
+    event FeeRecipientUpdated(address feeRecipient);
+    event PoolCriteriaUpdated(uint16 minVintage, uint16 maxVintage, uint256 minAuditDate);
+    event RedeemFeeUpdated(uint16 redeemFeeBasisPoints);
+}
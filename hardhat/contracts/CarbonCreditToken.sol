@@ -2,132 +2,336 @@
 // Compatible with OpenZeppelin Contracts ^5.0.0
 pragma solidity ^0.8.22;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
-import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
-import {ERC1155Burnable} from "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
-import {ERC1155Supply} from "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import {IERC165, IERC2981} from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {ERC1155Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/ERC1155Upgradeable.sol";
+import {ERC1155BurnableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/extensions/ERC1155BurnableUpgradeable.sol";
+import {ERC1155SupplyUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/extensions/ERC1155SupplyUpgradeable.sol";
+import {ERC1155Utils} from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Utils.sol";
 import "./CarbonProjectRegistry.sol";
+import "./CarbonKYCRegistry.sol";
+import "./CarbonRetirementCertificate.sol";
 
-contract CarbonCreditToken is ERC1155, ERC1155Burnable, AccessControl, ERC1155Supply {
+// Deployed behind a UUPS proxy, new state variables are only ever appended
+contract CarbonCreditToken is
+    Initializable,
+    ERC1155Upgradeable,
+    ERC1155BurnableUpgradeable,
+    AccessControlUpgradeable,
+    ERC1155SupplyUpgradeable,
+    IERC2981,
+    UUPSUpgradeable
+{
     bytes32 public constant TOKEN_MANAGER_ROLE = keccak256("TOKEN_MANAGER_ROLE");
+    // Contracts allowed to retire their own credits on behalf of another account (e.g. the marketplace)
+    bytes32 public constant RETIREMENT_AGENT_ROLE = keccak256("RETIREMENT_AGENT_ROLE");
     CarbonProjectRegistry public projectRegistry;
+    uint8 private constant VINTAGE_BITS = 16;
+    uint16 public constant BUFFER_VINTAGE = 0;
+    // Mints a certificate to the retiree on every retirement, disabled when unset
+    CarbonRetirementCertificate public retirementCertificate;
+    // Optional transfer restrictions, restricted credits only move between accounts verified in kycRegistry
+    CarbonKYCRegistry public kycRegistry;
+    bool public globalTransferRestriction;
+    mapping(uint256 => bool) public restrictedProjects;
+    // Escrow contracts (e.g. the marketplace) don't need to be verified themselves
+    mapping(address => bool) public transferRestrictionExempt;
 
-    constructor(
+    modifier onlyProjectRegistry() {
+        if(msg.sender != address(projectRegistry))
+            revert NotProjectRegistry();
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
         address _defaultAdmin, 
         address _manager, 
         address _registryAddress
-    ) ERC1155("") {
+    )
+        external
+        initializer
+    {
+        __ERC1155_init("");
+        __ERC1155Burnable_init();
+        __AccessControl_init();
+        __ERC1155Supply_init();
+        __UUPSUpgradeable_init();
         _grantRole(DEFAULT_ADMIN_ROLE, _defaultAdmin);
         _grantRole(TOKEN_MANAGER_ROLE, _manager);
         projectRegistry = CarbonProjectRegistry(_registryAddress);
     }
 
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    function setRetirementCertificate(address _retirementCertificate) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        retirementCertificate = CarbonRetirementCertificate(_retirementCertificate);
+    }
+
+    function setKYCRegistry(address _kycRegistry) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        kycRegistry = CarbonKYCRegistry(_kycRegistry);
+    }
+
+    function setGlobalTransferRestriction(bool _restricted) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        globalTransferRestriction = _restricted;
+        emit GlobalTransferRestrictionUpdated(_restricted);
+    }
+
+    function setProjectTransferRestriction(uint256 _projectId, bool _restricted) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        restrictedProjects[_projectId] = _restricted;
+        emit TransferRestrictionUpdated(_projectId, _restricted);
+    }
+
+    function setTransferRestrictionExempt(address _account, bool _exempt) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        transferRestrictionExempt[_account] = _exempt;
+        emit TransferRestrictionExemptUpdated(_account, _exempt);
+    }
+
+    // Token ID encoding: every (project, vintage) pair is its own token class.
+    // The upper bits hold the registry project ID and the lowest 16 bits hold the
+    // vintage (issuance year), i.e. tokenId = projectId << 16 | vintage.
+    // Vintage 0 is never issued, it holds the project's credits in the registry buffer pool.
+    function getTokenId(uint256 _projectId, uint16 _vintage) public pure returns(uint256) {
+        return _projectId << VINTAGE_BITS | _vintage;
+    }
+
+    function getProjectId(uint256 _tokenId) public pure returns(uint256) {
+        return _tokenId >> VINTAGE_BITS;
+    }
+
+    function getVintage(uint256 _tokenId) public pure returns(uint16) {
+        return uint16(_tokenId);
+    }
+
     function mintCredits(
         address _to, 
         uint64 _projectId, 
+        uint16 _vintage,
         uint256 _amount, 
         bytes calldata _data
     )
         external
         onlyRole(TOKEN_MANAGER_ROLE)
     {
-        if(!projectRegistry.projectExists(_projectId))
-            revert ProjectNotFound(_projectId);
-        uint256 allowedAmount = projectRegistry.getProjectIssuedCredits(_projectId) - totalSupply(_projectId);
-        if(allowedAmount < _amount) // Effectively checks if project is audited or not because non edited project cannot have a supply
-            revert MintExceedsIssuedCredits(_projectId, allowedAmount);
-
-        _mint(_to, _projectId, _amount, _data);
-        emit CreditsMinted(_to, _projectId, _amount);
+        uint256 tokenId = getTokenId(_projectId, _vintage);
+        checkMintAllowance(tokenId, _amount);
+        _mint(_to, tokenId, _amount, _data);
+        emit CreditsMinted(_to, tokenId, _amount);
     }
 
-    // Mint Batch currently not supported
-
     function mintCreditsBatch(
         address _to, 
-        uint256[] memory _projectIds, 
+        uint256[] memory _tokenIds, 
         uint256[] memory _amounts, 
         bytes memory _data
     )
         public
         onlyRole(TOKEN_MANAGER_ROLE)
     {
-        if(_projectIds.length != _amounts.length)
+        if(_tokenIds.length != _amounts.length)
             revert MismatchingArrayLengths();
-        for(uint256 i = 0; i < _projectIds.length; i++){
-            uint256 id = _projectIds[i];
-            if(!projectRegistry.projectExists(id))
-                revert ProjectNotFound(id);
-            uint256 allowedAmount = projectRegistry.getProjectIssuedCredits(id) - totalSupply(id);
-            if(allowedAmount < _amounts[i])
-                revert MintExceedsIssuedCredits(id, allowedAmount);
+        for(uint256 i = 0; i < _tokenIds.length; i++){
+            checkMintAllowance(_tokenIds[i], _amounts[i]);
         }
-        _mintBatch(_to, _projectIds, _amounts, _data);
-        emit CreditsMintedBatch(_to, _projectIds, _amounts);
+        _mintBatch(_to, _tokenIds, _amounts, _data);
+        emit CreditsMintedBatch(_to, _tokenIds, _amounts);
+    }
+
+    // Buffer credits are minted and cancelled by the registry
+    function mintBufferCredits(address _bufferPool, uint256 _projectId, uint256 _amount) external onlyProjectRegistry {
+        _mint(_bufferPool, getTokenId(_projectId, BUFFER_VINTAGE), _amount, "");
+    }
+
+    function burnBufferCredits(address _bufferPool, uint256 _projectId, uint256 _amount) external onlyProjectRegistry {
+        _burn(_bufferPool, getTokenId(_projectId, BUFFER_VINTAGE), _amount);
+    }
+
+    // Each vintage can only be minted up to the credits issued for it in the registry
+    function checkMintAllowance(uint256 _tokenId, uint256 _amount) private view {
+        uint256 projectId = getProjectId(_tokenId);
+        if(!projectRegistry.projectExists(projectId))
+            revert ProjectNotFound(projectId);
+        // Suspended and revoked projects can't be minted anymore
+        if(!projectRegistry.isProjectAudited(projectId))
+            revert ProjectNotAudited(projectId);
+        uint16 vintage = getVintage(_tokenId);
+        if(vintage == BUFFER_VINTAGE)
+            revert MintExceedsIssuedCredits(_tokenId, 0);
+        uint256 allowedAmount = projectRegistry.getVintageIssuedCredits(projectId, vintage) - totalSupply(_tokenId);
+        if(allowedAmount < _amount)
+            revert MintExceedsIssuedCredits(_tokenId, allowedAmount);
     }
 
     function retireCredits(
-        uint256 _projectId, 
+        uint256 _tokenId, 
+        uint256 _amount, 
+        string calldata _beneficiary,
+        string calldata _description
+    ) 
+        external
+    {
+        retire(msg.sender, _tokenId, _amount, _beneficiary, _description);
+    }
+
+    // Burn the caller's credits and attribute the retirement to _retiree
+    function retireCreditsOnBehalf(
+        address _retiree,
+        uint256 _tokenId, 
         uint256 _amount, 
+        string calldata _beneficiary,
         string calldata _description
     ) 
         external
+        onlyRole(RETIREMENT_AGENT_ROLE)
     {
-        if(balanceOf(msg.sender, _projectId) < _amount){
-            revert InsufficientBalance(_projectId);
+        retire(_retiree, _tokenId, _amount, _beneficiary, _description);
+    }
+
+    function retire(
+        address _retiree,
+        uint256 _tokenId, 
+        uint256 _amount, 
+        string calldata _beneficiary,
+        string calldata _description
+    ) 
+        private
+    {
+        if(balanceOf(msg.sender, _tokenId) < _amount){
+            revert InsufficientBalance(_tokenId);
         }
 
-        _burn(msg.sender, _projectId, _amount);
+        _burn(msg.sender, _tokenId, _amount);
+        if(address(retirementCertificate) != address(0))
+            retirementCertificate.issueCertificate(_retiree, _tokenId, _amount, _beneficiary, _description);
 
         // Emit retirement event
         emit CreditRetired(
-            msg.sender, 
-            _projectId, 
+            _retiree, 
+            _tokenId, 
             _amount, 
             block.timestamp,
+            _beneficiary,
             _description
         );
     }
 
+    // Metadata of all vintages of a project lives under the project's ipfsCID in the registry
+    function uri(uint256 _tokenId) public view override returns(string memory) {
+        uint256 projectId = getProjectId(_tokenId);
+        if(!projectRegistry.projectExists(projectId))
+            revert ProjectNotFound(projectId);
+        return string.concat("ipfs://", projectRegistry.getProjectIpfsCID(projectId));
+    }
+
+    // Called by the registry when the ipfsCID of a project changes
+    function updateProjectURI(uint256 _projectId) external onlyProjectRegistry {
+        uint16[] memory vintages = projectRegistry.getProjectVintages(_projectId);
+        for(uint256 i = 0; i < vintages.length; i++){
+            uint256 tokenId = getTokenId(_projectId, vintages[i]);
+            emit URI(uri(tokenId), tokenId);
+        }
+    }
+
+    // Royalties are set per project by the project owner in the registry and apply to all vintages
+    function royaltyInfo(uint256 _tokenId, uint256 _salePrice) 
+        external 
+        view 
+        returns(address receiver, uint256 royaltyAmount) 
+    {
+        uint16 royaltyBasisPoints;
+        (receiver, royaltyBasisPoints) = projectRegistry.getProjectRoyalty(getProjectId(_tokenId));
+        royaltyAmount = _salePrice * royaltyBasisPoints / 10000;
+    }
+
+    // Exempt escrows return credits to their depositor through here, even if the depositor's verification was
+    // revoked in the meantime. Transfers of other callers stay restricted.
+    function returnEscrow(address _depositor, uint256 _tokenId, uint256 _amount) external {
+        if(!transferRestrictionExempt[msg.sender]){
+            _safeTransferFrom(msg.sender, _depositor, _tokenId, _amount, "");
+            return;
+        }
+        if(_depositor == address(0))
+            revert ERC1155InvalidReceiver(address(0));
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory values = new uint256[](1);
+        ids[0] = _tokenId;
+        values[0] = _amount;
+        // Skips the restriction check of _update below
+        super._update(msg.sender, _depositor, ids, values);
+        ERC1155Utils.checkOnERC1155Received(msg.sender, msg.sender, _depositor, _tokenId, _amount, "");
+    }
+
+    // Mints and burns (retirements, buffer cancellations) are never restricted
     function _update(address from, address to, uint256[] memory ids, uint256[] memory values)
         internal
-        override(ERC1155, ERC1155Supply)
+        override(ERC1155Upgradeable, ERC1155SupplyUpgradeable)
     {
+        if(from != address(0) && to != address(0) && address(kycRegistry) != address(0)){
+            for(uint256 i = 0; i < ids.length; i++){
+                checkTransferAllowed(from, to, ids[i]);
+            }
+        }
         super._update(from, to, ids, values);
     }
 
+    function checkTransferAllowed(address _from, address _to, uint256 _tokenId) private view {
+        uint256 projectId = getProjectId(_tokenId);
+        if(!globalTransferRestriction && !restrictedProjects[projectId])
+            return;
+        if(!transferRestrictionExempt[_from] && !kycRegistry.isVerified(_from, projectId))
+            revert TransferRestricted(_from, _tokenId);
+        if(!transferRestrictionExempt[_to] && !kycRegistry.isVerified(_to, projectId))
+            revert TransferRestricted(_to, _tokenId);
+    }
+
     function supportsInterface(bytes4 interfaceId)
         public
         view
-        override(ERC1155, AccessControl)
+        override(ERC1155Upgradeable, AccessControlUpgradeable, IERC165)
         returns (bool)
     {
-        return super.supportsInterface(interfaceId);
+        return interfaceId == type(IERC2981).interfaceId || super.supportsInterface(interfaceId);
     }
 
-    error InsufficientBalance(uint256 projectId);
-    error MintExceedsIssuedCredits(uint256 projectId, uint256 allowedAmount);
+    error InsufficientBalance(uint256 tokenId);
+    error MintExceedsIssuedCredits(uint256 tokenId, uint256 allowedAmount);
     error MismatchingArrayLengths();
+    error NotProjectRegistry();
+    error ProjectNotAudited(uint256 projectId);
     error ProjectNotFound(uint256 projectId);
+    error TransferRestricted(address account, uint256 tokenId);
 
     event CreditsMinted(
         address indexed to,
-        uint256 indexed projectId,
+        uint256 indexed tokenId,
         uint256 amount
     );
 
     event CreditsMintedBatch(
         address indexed to,
-        uint256[] indexed projectId,
+        uint256[] indexed tokenId,
         uint256[] amount
     );
 
     // Event to log credit retirements
     event CreditRetired(
         address indexed retiree, 
-        uint256 indexed projectId, 
+        uint256 indexed tokenId, 
         uint256 amount,
         uint256 timestamp,
+        string beneficiary,
         string emissionDescription
     );
+
+    event GlobalTransferRestrictionUpdated(bool restricted);
+
+    event TransferRestrictionUpdated(uint256 indexed projectId, bool restricted);
+
+    event TransferRestrictionExemptUpdated(address indexed account, bool exempt);
 }
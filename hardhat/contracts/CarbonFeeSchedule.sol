@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CarbonCreditMarketplace.sol";
+import "./CarbonCreditToken.sol";
+
+// Resolves the platform fee of marketplace and auction trades from volume tiers and per-address and per-project overrides.
+// Without a matching rule the marketplace platformFeeBasisPoints applies.
+contract CarbonFeeSchedule is Ownable {
+    uint16 private constant BIPS_DENOMINATOR = 10000;
+    uint16 public constant MAX_FEE_BASIS_POINTS = 1000; // 10%, same cap as the marketplace platform fee
+    // Trailing volume covers the current and the previous period
+    uint256 public constant VOLUME_PERIOD = 30 days;
+
+    CarbonCreditMarketplace public marketplace;
+    CarbonCreditToken public carbonToken;
+    // Volume tiers apply once the trailing volume of the buyer or the seller reaches minVolume
+    struct VolumeTier {
+        uint256 minVolume;          // in wei or in the smallest unit of the payment token
+        uint16 feeBasisPoints;
+    }
+    // Payment token (address(0) for the native coin) => tiers sorted by minVolume
+    mapping(address => VolumeTier[]) private volumeTiers;
+    struct FeeOverride {
+        bool isSet;                 // A set override with 0 basis points waives the fee
+        uint16 feeBasisPoints;
+    }
+    mapping(address => FeeOverride) public accountFeeOverrides;
+    mapping(uint256 => FeeOverride) public projectFeeOverrides;
+    struct TraderVolume {
+        uint256 period;             // block.timestamp / VOLUME_PERIOD of the last recorded trade
+        uint256 currentVolume;
+        uint256 previousVolume;
+    }
+    // Payment token => trader => value bought and sold
+    mapping(address => mapping(address => TraderVolume)) private traderVolumes;
+    // Contracts besides the marketplace that settle trades, e.g. the auction house
+    mapping(address => bool) public tradeRecorders;
+
+    constructor(address _marketplaceAddress, address _initialOwner) Ownable(_initialOwner) {
+        marketplace = CarbonCreditMarketplace(payable(_marketplaceAddress));
+        carbonToken = marketplace.carbonToken();
+    }
+
+    // Replace the tiers of a payment token, an empty list removes them
+    function setVolumeTiers(address _paymentToken, VolumeTier[] calldata _tiers) external onlyOwner {
+        delete volumeTiers[_paymentToken];
+        for(uint256 i = 0; i < _tiers.length; i++){
+            if(_tiers[i].minVolume == 0 || (i > 0 && _tiers[i].minVolume <= _tiers[i - 1].minVolume))
+                revert InvalidVolumeTier(_tiers[i].minVolume);
+            requireValidFee(_tiers[i].feeBasisPoints);
+            volumeTiers[_paymentToken].push(_tiers[i]);
+        }
+        emit VolumeTiersUpdated(_paymentToken, _tiers);
+    }
+
+    function setTradeRecorder(address _recorder, bool _allowed) external onlyOwner {
+        tradeRecorders[_recorder] = _allowed;
+        emit TradeRecorderUpdated(_recorder, _allowed);
+    }
+
+    function setAccountFeeOverride(address _account, uint16 _feeBasisPoints) external onlyOwner {
+        requireValidFee(_feeBasisPoints);
+        accountFeeOverrides[_account] = FeeOverride(true, _feeBasisPoints);
+        emit AccountFeeOverrideUpdated(_account, true, _feeBasisPoints);
+    }
+
+    function removeAccountFeeOverride(address _account) external onlyOwner {
+        delete accountFeeOverrides[_account];
+        emit AccountFeeOverrideUpdated(_account, false, 0);
+    }
+
+    function setProjectFeeOverride(uint256 _projectId, uint16 _feeBasisPoints) external onlyOwner {
+        requireValidFee(_feeBasisPoints);
+        projectFeeOverrides[_projectId] = FeeOverride(true, _feeBasisPoints);
+        emit ProjectFeeOverrideUpdated(_projectId, true, _feeBasisPoints);
+    }
+
+    function removeProjectFeeOverride(uint256 _projectId) external onlyOwner {
+        delete projectFeeOverrides[_projectId];
+        emit ProjectFeeOverrideUpdated(_projectId, false, 0);
+    }
+
+    function requireValidFee(uint16 _feeBasisPoints) private pure {
+        if(_feeBasisPoints > MAX_FEE_BASIS_POINTS)
+            revert InvalidFee(_feeBasisPoints);
+    }
+
+    // Called for every trade, the fee is resolved before the trade counts towards the volume of both traders
+    function recordTrade(
+        address _buyer,
+        address _seller,
+        uint256 _tokenId,
+        address _paymentToken,
+        uint256 _price
+    ) external returns(uint16 feeBasisPoints) {
+        if(msg.sender != address(marketplace) && !tradeRecorders[msg.sender])
+            revert NotTradeRecorder();
+        feeBasisPoints = getFeeBasisPoints(_buyer, _seller, _tokenId, _paymentToken);
+        addVolume(_buyer, _paymentToken, _price);
+        addVolume(_seller, _paymentToken, _price);
+    }
+
+    function addVolume(address _trader, address _paymentToken, uint256 _price) private {
+        uint256 period = block.timestamp / VOLUME_PERIOD;
+        TraderVolume storage volume = traderVolumes[_paymentToken][_trader];
+        if(volume.period != period){
+            volume.previousVolume = volume.period + 1 == period ? volume.currentVolume : 0;
+            volume.currentVolume = 0;
+            volume.period = period;
+        }
+        volume.currentVolume += _price;
+    }
+
+    // Overrides of the buyer or the seller come first (the lower one if both have one), then the project override,
+    // then the volume tier of whichever trader has the higher trailing volume
+    function getFeeBasisPoints(
+        address _buyer,
+        address _seller,
+        uint256 _tokenId,
+        address _paymentToken
+    ) public view returns(uint16) {
+        FeeOverride memory buyerOverride = accountFeeOverrides[_buyer];
+        FeeOverride memory sellerOverride = accountFeeOverrides[_seller];
+        if(buyerOverride.isSet && sellerOverride.isSet)
+            return buyerOverride.feeBasisPoints < sellerOverride.feeBasisPoints
+                ? buyerOverride.feeBasisPoints
+                : sellerOverride.feeBasisPoints;
+        if(buyerOverride.isSet)
+            return buyerOverride.feeBasisPoints;
+        if(sellerOverride.isSet)
+            return sellerOverride.feeBasisPoints;
+
+        FeeOverride memory projectOverride = projectFeeOverrides[carbonToken.getProjectId(_tokenId)];
+        if(projectOverride.isSet)
+            return projectOverride.feeBasisPoints;
+
+        VolumeTier[] storage tiers = volumeTiers[_paymentToken];
+        uint256 volume = Math.max(trailingVolume(_buyer, _paymentToken), trailingVolume(_seller, _paymentToken));
+        for(uint256 i = tiers.length; i > 0; i--){
+            if(volume >= tiers[i - 1].minVolume)
+                return tiers[i - 1].feeBasisPoints;
+        }
+        return marketplace.platformFeeBasisPoints();
+    }
+
+    // Fee a buyer would pay for _amount credits of a trade order
+    function previewTradeFee(
+        address _buyer,
+        uint256 _orderId,
+        uint256 _amount
+    ) external view returns(uint16 feeBasisPoints, uint256 platformFee) {
+        (bool isActive, address seller, uint256 tokenId, uint256 creditsAmount, uint256 orderPrice, , address paymentToken)
+            = marketplace.tradeOrders(_orderId);
+        if(!isActive)
+            revert InactiveOrder(_orderId);
+        if(_amount == 0 || _amount > creditsAmount)
+            revert InvalidAmount(_amount);
+        feeBasisPoints = getFeeBasisPoints(_buyer, seller, tokenId, paymentToken);
+        platformFee = orderPrice / creditsAmount * _amount * feeBasisPoints / BIPS_DENOMINATOR;
+    }
+
+    // Value the trader bought or sold in the current and the previous period
+    function trailingVolume(address _trader, address _paymentToken) public view returns(uint256) {
+        TraderVolume memory volume = traderVolumes[_paymentToken][_trader];
+        uint256 period = block.timestamp / VOLUME_PERIOD;
+        if(volume.period == period)
+            return volume.currentVolume + volume.previousVolume;
+        if(volume.period + 1 == period)
+            return volume.currentVolume;
+        return 0;
+    }
+
+    function getVolumeTiers(address _paymentToken) external view returns(VolumeTier[] memory) {
+        return volumeTiers[_paymentToken];
+    }
+
+    error InactiveOrder(uint256 orderId);
+    error InvalidAmount(uint256 amount);
+    error InvalidFee(uint16 feeBasisPoints);
+    error InvalidVolumeTier(uint256 minVolume);
+    error NotTradeRecorder();
+
+    event AccountFeeOverrideUpdated(address indexed account, bool isSet, uint16 feeBasisPoints);
+    event ProjectFeeOverrideUpdated(uint256 indexed projectId, bool isSet, uint16 feeBasisPoints);
+    event TradeRecorderUpdated(address indexed recorder, bool allowed);
+    event VolumeTiersUpdated(address indexed paymentToken, VolumeTier[] tiers);
+}
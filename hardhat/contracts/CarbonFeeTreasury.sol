@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./CarbonCreditMarketplace.sol";
+
+// Collects the marketplace platform fees and splits them between payout recipients, who withdraw their share.
+// Part of every claim can be set aside as the marketplace's keeper reward budget.
+contract CarbonFeeTreasury is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    uint16 private constant BIPS_DENOMINATOR = 10000;
+    uint16 public constant MAX_KEEPER_RESERVE_BASIS_POINTS = 5000; // 50%
+
+    CarbonCreditMarketplace public marketplace;
+    // Shares are in basis points and add up to BIPS_DENOMINATOR
+    address[] private feeRecipients;
+    mapping(address => uint16) public feeRecipientShares;
+    // Share of every claim that funds the marketplace keeper reserve instead of the recipients
+    uint16 public keeperReserveBasisPoints;
+    // Payment token (address(0) for the native coin) => recipient => withdrawable fees
+    mapping(address => mapping(address => uint256)) public recipientBalances;
+    // Payment token => fees credited to the recipients
+    mapping(address => uint256) public feesPaid;
+    // Payment token => fees moved into the keeper reserve
+    mapping(address => uint256) public feesReserved;
+
+    constructor(address _marketplaceAddress, address _initialOwner) Ownable(_initialOwner) {
+        marketplace = CarbonCreditMarketplace(payable(_marketplaceAddress));
+    }
+
+    receive() external payable {
+        if(msg.sender != address(marketplace))
+            revert NotMarketplace();
+    }
+
+    function setFeeRecipients(address[] calldata _recipients, uint16[] calldata _shares) external onlyOwner {
+        if(_recipients.length != _shares.length)
+            revert MismatchingArrayLengths();
+        for(uint256 i = 0; i < feeRecipients.length; i++){
+            delete feeRecipientShares[feeRecipients[i]];
+        }
+        uint256 totalShares;
+        for(uint256 i = 0; i < _recipients.length; i++){
+            if(_recipients[i] == address(0) || _shares[i] == 0 || feeRecipientShares[_recipients[i]] != 0)
+                revert InvalidFeeRecipient(_recipients[i]);
+            feeRecipientShares[_recipients[i]] = _shares[i];
+            totalShares += _shares[i];
+        }
+        if(totalShares != BIPS_DENOMINATOR)
+            revert InvalidFeeShares(totalShares);
+        feeRecipients = _recipients;
+        emit FeeRecipientsUpdated(_recipients, _shares);
+    }
+
+    function updateKeeperReserveShare(uint16 _keeperReserveBasisPoints) external onlyOwner {
+        if(_keeperReserveBasisPoints > MAX_KEEPER_RESERVE_BASIS_POINTS)
+            revert InvalidKeeperReserveShare(_keeperReserveBasisPoints);
+        keeperReserveBasisPoints = _keeperReserveBasisPoints;
+        emit KeeperReserveShareUpdated(_keeperReserveBasisPoints);
+    }
+
+    // Pull the accrued fees of a payment token from the marketplace and split them, anyone can trigger it
+    function claimFees(address _paymentToken) external nonReentrant {
+        uint256 recipientCount = feeRecipients.length;
+        if(recipientCount == 0)
+            revert NoFeeRecipients();
+        uint256 claimedFees = marketplace.withdrawFees(_paymentToken);
+
+        uint256 reservedFees = claimedFees * keeperReserveBasisPoints / BIPS_DENOMINATOR;
+        if(reservedFees > 0){
+            feesReserved[_paymentToken] += reservedFees;
+            if(_paymentToken == address(0)){
+                marketplace.fundKeeperRewards{value: reservedFees}(_paymentToken, reservedFees);
+            } else {
+                IERC20(_paymentToken).forceApprove(address(marketplace), reservedFees);
+                marketplace.fundKeeperRewards(_paymentToken, reservedFees);
+            }
+        }
+
+        uint256 revenue = claimedFees - reservedFees;
+        uint256 remainingRevenue = revenue;
+        for(uint256 i = 0; i < recipientCount; i++){
+            address recipient = feeRecipients[i];
+            // The last recipient gets the rounding dust
+            uint256 payout = i == recipientCount - 1
+                ? remainingRevenue
+                : revenue * feeRecipientShares[recipient] / BIPS_DENOMINATOR;
+            remainingRevenue -= payout;
+            recipientBalances[_paymentToken][recipient] += payout;
+            emit FeesDistributed(_paymentToken, recipient, payout);
+        }
+        feesPaid[_paymentToken] += revenue;
+        emit FeesClaimed(_paymentToken, msg.sender, claimedFees, reservedFees);
+    }
+
+    function withdraw(address _paymentToken, address _to) external nonReentrant {
+        uint256 amount = recipientBalances[_paymentToken][msg.sender];
+        if(amount == 0)
+            revert InsufficientBalance(amount);
+        recipientBalances[_paymentToken][msg.sender] = 0;
+        if(_paymentToken == address(0)){
+            (bool transferSuccessful,) = payable(_to).call{value: amount}("");
+            if(!transferSuccessful)
+                revert TransferFailed();
+        } else {
+            IERC20(_paymentToken).safeTransfer(_to, amount);
+        }
+        emit FeesWithdrawn(_paymentToken, msg.sender, _to, amount);
+    }
+
+    function getFeeRecipients() external view returns(address[] memory recipients, uint16[] memory shares) {
+        recipients = feeRecipients;
+        shares = new uint16[](recipients.length);
+        for(uint256 i = 0; i < recipients.length; i++){
+            shares[i] = feeRecipientShares[recipients[i]];
+        }
+    }
+
+    // accrued: fees waiting in the marketplace to be claimed, reserved: keeper budget left in the marketplace,
+    // paid: fees credited to the recipients, rewardsPaid: keeper rewards paid out of the reserve
+    function getFeeAccounting(address _paymentToken)
+        external
+        view
+        returns(uint256 accrued, uint256 reserved, uint256 paid, uint256 rewardsPaid)
+    {
+        accrued = _paymentToken == address(0)
+            ? marketplace.accountBalances(address(marketplace))
+            : marketplace.tokenAccountBalances(_paymentToken, address(marketplace));
+        reserved = marketplace.keeperRewardReserves(_paymentToken);
+        paid = feesPaid[_paymentToken];
+        rewardsPaid = marketplace.keeperRewardsPaid(_paymentToken);
+    }
+
+    error InsufficientBalance(uint256 amount);
+    error InvalidFeeRecipient(address recipient);
+    error InvalidFeeShares(uint256 totalShares);
+    error InvalidKeeperReserveShare(uint16 keeperReserveBasisPoints);
+    error MismatchingArrayLengths();
+    error NoFeeRecipients();
+    error NotMarketplace();
+    error TransferFailed();
+
+    event FeeRecipientsUpdated(address[] recipients, uint16[] shares);
+    event FeesClaimed(address indexed paymentToken, address indexed caller, uint256 amount, uint256 reservedAmount);
+    event FeesDistributed(address indexed paymentToken, address indexed recipient, uint256 amount);
+    event FeesWithdrawn(address indexed paymentToken, address indexed recipient, address to, uint256 amount);
+    event KeeperReserveShareUpdated(uint16 keeperReserveBasisPoints);
+}
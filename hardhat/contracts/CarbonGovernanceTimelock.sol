@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+// Owner of the marketplace and admin of the registry and token, privileged changes wait for minDelay
+contract CarbonGovernanceTimelock is TimelockController {
+    constructor(
+        uint256 _minDelay,
+        address[] memory _proposers,
+        address[] memory _executors,
+        address _admin
+    ) TimelockController(_minDelay, _proposers, _executors, _admin) {}
+}
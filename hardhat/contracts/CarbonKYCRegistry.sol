@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+// Accounts that passed KYC, checked by the credit token for projects with restricted transfers
+contract CarbonKYCRegistry is AccessControl {
+    bytes32 public constant KYC_MANAGER_ROLE = keccak256("KYC_MANAGER_ROLE");
+
+    // Accounts verified for every project
+    mapping(address => bool) public verifiedAccounts;
+    // Accounts only verified for a single project
+    mapping(uint256 => mapping(address => bool)) public projectVerifiedAccounts;
+
+    constructor(address _defaultAdmin, address _kycManager) {
+        _grantRole(DEFAULT_ADMIN_ROLE, _defaultAdmin);
+        _grantRole(KYC_MANAGER_ROLE, _kycManager);
+    }
+
+    function setAccountVerified(address _account, bool _verified) external onlyRole(KYC_MANAGER_ROLE) {
+        verifiedAccounts[_account] = _verified;
+        emit AccountVerificationUpdated(_account, _verified);
+    }
+
+    function setProjectAccountVerified(
+        uint256 _projectId,
+        address _account,
+        bool _verified
+    )
+        external
+        onlyRole(KYC_MANAGER_ROLE)
+    {
+        projectVerifiedAccounts[_projectId][_account] = _verified;
+        emit ProjectAccountVerificationUpdated(_projectId, _account, _verified);
+    }
+
+    function isVerified(address _account, uint256 _projectId) external view returns(bool) {
+        return verifiedAccounts[_account] || projectVerifiedAccounts[_projectId][_account];
+    }
+
+    event AccountVerificationUpdated(address indexed account, bool verified);
+    event ProjectAccountVerificationUpdated(
+        uint256 indexed projectId,
+        address indexed account,
+        bool verified
+    );
+}
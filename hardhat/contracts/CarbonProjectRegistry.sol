@@ -1,12 +1,19 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "./CarbonCreditToken.sol";
 
-contract CarbonProjectRegistry is AccessControl {
+// Deployed behind a UUPS proxy, new state variables and struct fields are only ever appended
+contract CarbonProjectRegistry is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
     bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
     bytes32 public constant PROJECT_OWNER_ROLE = keccak256("PROJECT_OWNER_ROLE");
-    uint8 public immutable mintPercentage;
+    uint8 public mintPercentage;
+    uint16 public constant MAX_ROYALTY_BASIS_POINTS = 1000; // 10%
+    // Number of auditor votes needed to accept or reject a project
+    uint8 public auditorQuorum;
 
     struct ProjectMetadata {
         ProjectStatus status;
@@ -23,19 +30,131 @@ contract CarbonProjectRegistry is AccessControl {
     enum ProjectStatus {
         Pending,
         Audited,
-        Rejected
+        Rejected,
+        Suspended,      // Temporarily invalidated, can be reinstated
+        Revoked         // Permanently invalidated
     }
 
     mapping(uint256 => ProjectMetadata) public projects;
     uint256 private projectCount;
 
     mapping(bytes32 => bool) private registeredProjects;
+    // Royalty paid to the project owner on secondary sales
+    mapping(uint256 => uint16) public projectRoyaltyBasisPoints;
+    // Issued credits are released in vintage (issuance year) tranches, each vintage is its own token ID
+    mapping(uint256 => mapping(uint16 => uint256)) private vintageCreditsIssued;
+    mapping(uint256 => uint16[]) private projectVintages;
+    mapping(uint256 => uint256) public projectVintageCreditsTotal;
+    // Audit votes of the current review round, a new round starts whenever the project metadata changes
+    struct AuditVotes {
+        uint256 round;
+        uint8 approvals;
+        uint8 rejections;
+    }
+    mapping(uint256 => AuditVotes) public auditVotes;
+    // Credits withheld by mintPercentage are minted to the buffer pool to cover reversals
+    struct BufferAccount {
+        uint256 contributed;
+        uint256 cancelled;
+    }
+    mapping(uint256 => BufferAccount) public projectBuffers;
+    address public bufferPool;
+    // Per project override of mintPercentage, 0 uses the global value
+    mapping(uint256 => uint8) public projectMintPercentage;
+    // Verified monitoring reports after the initial audit, each one adds to carbonRemoved and creditsIssued
+    struct MonitoringPeriod {
+        uint256 carbonRemoved;
+        uint256 creditsIssued;
+        uint8 mintPercentage;
+        uint256 timestamp;
+        string ipfsCID;
+    }
+    // Periods are kept in a mapping instead of an array so that MonitoringPeriod can grow in an upgrade
+    mapping(uint256 => mapping(uint256 => MonitoringPeriod)) private projectMonitoringPeriods;
+    mapping(uint256 => uint256) public projectMonitoringPeriodCount;
+    // Applications for PROJECT_OWNER_ROLE, reviewed by an admin or auditor
+    enum ApplicationStatus {
+        None,
+        Pending,
+        Approved,
+        Denied
+    }
+    struct OwnerApplication {
+        ApplicationStatus status;
+        string kycIpfsCID;
+        uint256 submittedAt;
+        address reviewer;
+    }
+    mapping(address => OwnerApplication) public ownerApplications;
+    mapping(uint256 => mapping(uint256 => mapping(address => bool))) private hasVoted;
+    // Token that is notified when project metadata changes, its URIs are derived from the ipfsCID
+    CarbonCreditToken public carbonToken;
+    // Project => buffer pool => buffer credits minted to that pool and not cancelled yet, bufferPool can change over time
+    mapping(uint256 => mapping(address => uint256)) public projectBufferPoolCredits;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
 
-    constructor(uint8 _percentageToBeMinted, address defaultAdmin, address defaultProjectOwner) {
+    function initialize(
+        uint8 _percentageToBeMinted,
+        address defaultAdmin,
+        address defaultProjectOwner
+    )
+        external
+        initializer
+    {
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
         _grantRole(DEFAULT_ADMIN_ROLE, defaultAdmin);
         _grantRole(AUDITOR_ROLE, defaultAdmin);
         _grantRole(PROJECT_OWNER_ROLE, defaultProjectOwner);
         mintPercentage = _percentageToBeMinted;
+        auditorQuorum = 1;
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    function updateAuditorQuorum(uint8 _auditorQuorum) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if(_auditorQuorum == 0)
+            revert InvalidQuorum(_auditorQuorum);
+        auditorQuorum = _auditorQuorum;
+        emit AuditorQuorumUpdated(_auditorQuorum);
+    }
+
+    function applyForProjectOwner(string calldata _kycIpfsCID) external {
+        if(hasRole(PROJECT_OWNER_ROLE, msg.sender))
+            revert AlreadyProjectOwner(msg.sender);
+        if(ownerApplications[msg.sender].status == ApplicationStatus.Pending)
+            revert ApplicationAlreadyPending(msg.sender);
+        ownerApplications[msg.sender] = OwnerApplication({
+            status: ApplicationStatus.Pending,
+            kycIpfsCID: _kycIpfsCID,
+            submittedAt: block.timestamp,
+            reviewer: address(0)
+        });
+        emit ProjectOwnerApplicationSubmitted(msg.sender, _kycIpfsCID);
+    }
+
+    // Only an approved application grants PROJECT_OWNER_ROLE, denied applicants can apply again
+    function reviewProjectOwnerApplication(address _applicant, bool _approve, string calldata _reason) external {
+        if(!hasRole(DEFAULT_ADMIN_ROLE, msg.sender) && !hasRole(AUDITOR_ROLE, msg.sender)){
+            bytes32[2] memory requiredRoles = [DEFAULT_ADMIN_ROLE, AUDITOR_ROLE];
+            revert UnauthorizedAccount(address(msg.sender), requiredRoles);
+        }
+        OwnerApplication storage application = ownerApplications[_applicant];
+        if(application.status != ApplicationStatus.Pending)
+            revert NoPendingApplication(_applicant);
+        application.status = _approve ? ApplicationStatus.Approved : ApplicationStatus.Denied;
+        application.reviewer = msg.sender;
+        if(_approve)
+            _grantRole(PROJECT_OWNER_ROLE, _applicant);
+        emit ProjectOwnerApplicationReviewed(_applicant, msg.sender, _approve, _reason);
+    }
+
+    function getApplicationStatus(address _applicant) external view returns(ApplicationStatus) {
+        return ownerApplications[_applicant].status;
     }
 
     function addProject(
@@ -72,35 +191,243 @@ contract CarbonProjectRegistry is AccessControl {
         }
         if(!projectExists(_projectId)) 
             revert ProjectNotFound();
+        ProjectStatus status = projects[_projectId].status;
         // Additional checks for Project Owners
         if(!hasRole(AUDITOR_ROLE, msg.sender)){
             if(projects[_projectId].projectOwner != msg.sender)
                 revert NotProjectOwner();
-            if(projects[_projectId].status == ProjectStatus.Audited) 
+            if(status == ProjectStatus.Audited) 
                 revert ProjectAlreadyAudited();
         }
+        if(status == ProjectStatus.Suspended || status == ProjectStatus.Revoked)
+            revert InvalidStatusTransition(status);
         projects[_projectId].ipfsCID = _newIpfsCID;
-        projects[_projectId].status = ProjectStatus.Pending;
+        if(status != ProjectStatus.Pending)
+            setProjectStatus(_projectId, ProjectStatus.Pending, "Metadata updated");
+        auditVotes[_projectId] = AuditVotes(auditVotes[_projectId].round + 1, 0, 0);
+        emit ProjectMetadataUpdated(_projectId, msg.sender, _newIpfsCID, status);
+        if(address(carbonToken) != address(0))
+            carbonToken.updateProjectURI(_projectId);
     }
 
-    function getRiskCorrectedCreditAmount(uint256 amount) internal view returns(uint256) {
-        return amount * mintPercentage / 100;
+    // Hand a project over to another project owner, royalties follow the new owner
+    function transferProjectOwnership(uint256 _projectId, address _newOwner) external {
+        if(!projectExists(_projectId))
+            revert ProjectNotFound();
+        if(projects[_projectId].projectOwner != msg.sender)
+            revert NotProjectOwner();
+        if(!hasRole(PROJECT_OWNER_ROLE, _newOwner))
+            revert AccessControlUnauthorizedAccount(_newOwner, PROJECT_OWNER_ROLE);
+        projects[_projectId].projectOwner = _newOwner;
+        emit ProjectOwnershipTransferred(_projectId, msg.sender, _newOwner);
     }
 
-    function acceptProject(uint256 _projectId) public onlyRole(AUDITOR_ROLE) {
+    function setCarbonToken(address _carbonToken) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        carbonToken = CarbonCreditToken(_carbonToken);
+    }
+
+    function setBufferPool(address _bufferPool) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        bufferPool = _bufferPool;
+        emit BufferPoolUpdated(_bufferPool);
+    }
+
+    // Burn buffer credits of a project after a reversal from a pool they were contributed to
+    function cancelBufferCredits(
+        uint256 _projectId, 
+        address _bufferPool, 
+        uint256 _amount, 
+        string calldata _reason
+    ) 
+        external 
+        onlyRole(DEFAULT_ADMIN_ROLE) 
+    {
+        uint256 available = projectBufferPoolCredits[_projectId][_bufferPool];
+        if(_amount == 0 || _amount > available)
+            revert InsufficientBufferCredits(available);
+        projectBufferPoolCredits[_projectId][_bufferPool] = available - _amount;
+        projectBuffers[_projectId].cancelled += _amount;
+        carbonToken.burnBufferCredits(_bufferPool, _projectId, _amount);
+        emit BufferCreditsCancelled(_projectId, _amount, _reason);
+    }
+
+    function setProjectRoyalty(uint256 _projectId, uint16 _royaltyBasisPoints) external {
+        if(!projectExists(_projectId))
+            revert ProjectNotFound();
+        if(projects[_projectId].projectOwner != msg.sender)
+            revert NotProjectOwner();
+        if(_royaltyBasisPoints > MAX_ROYALTY_BASIS_POINTS)
+            revert RoyaltyTooHigh(_royaltyBasisPoints);
+        projectRoyaltyBasisPoints[_projectId] = _royaltyBasisPoints;
+        emit ProjectRoyaltyUpdated(_projectId, msg.sender, _royaltyBasisPoints);
+    }
+
+    function setProjectMintPercentage(uint256 _projectId, uint8 _mintPercentage) external onlyRole(AUDITOR_ROLE) {
         if(!projectExists(_projectId))
             revert ProjectNotFound();
-        projects[_projectId].status = ProjectStatus.Audited;
+        if(_mintPercentage > 100)
+            revert InvalidMintPercentage(_mintPercentage);
+        projectMintPercentage[_projectId] = _mintPercentage;
+        emit ProjectMintPercentageUpdated(_projectId, _mintPercentage);
+    }
+
+    function getProjectMintPercentage(uint256 _projectId) public view returns(uint8) {
+        uint8 percentage = projectMintPercentage[_projectId];
+        return percentage == 0 ? mintPercentage : percentage;
+    }
+
+    function getRiskCorrectedCreditAmount(uint256 amount, uint8 _mintPercentage) internal pure returns(uint256) {
+        return amount * _mintPercentage / 100;
+    }
+
+    // Record a verified monitoring period of an audited project, _mintPercentage 0 uses the project's percentage
+    function recordMonitoringPeriod(
+        uint256 _projectId,
+        uint256 _carbonRemoved,
+        string calldata _ipfsCID,
+        uint8 _mintPercentage
+    )
+        external
+        onlyRole(AUDITOR_ROLE)
+    {
+        if(getProjectStatus(_projectId) != ProjectStatus.Audited)
+            revert ProjectNotAudited();
+        if(_carbonRemoved == 0)
+            revert InvalidReductionAmount(_carbonRemoved);
+        if(_mintPercentage > 100)
+            revert InvalidMintPercentage(_mintPercentage);
+        if(_mintPercentage == 0)
+            _mintPercentage = getProjectMintPercentage(_projectId);
+        uint256 creditsIssued = getRiskCorrectedCreditAmount(_carbonRemoved, _mintPercentage);
+        uint256 periodIndex = projectMonitoringPeriodCount[_projectId]++;
+        projectMonitoringPeriods[_projectId][periodIndex] = MonitoringPeriod({
+            carbonRemoved: _carbonRemoved,
+            creditsIssued: creditsIssued,
+            mintPercentage: _mintPercentage,
+            timestamp: block.timestamp,
+            ipfsCID: _ipfsCID
+        });
+
+        ProjectMetadata storage project = projects[_projectId];
+        project.carbonRemoved += _carbonRemoved;
+        project.creditsIssued += creditsIssued;
+        contributeToBuffer(_projectId, project.carbonRemoved - project.creditsIssued);
+        emit MonitoringPeriodRecorded(
+            _projectId, 
+            periodIndex, 
+            msg.sender, 
+            _carbonRemoved, 
+            creditsIssued, 
+            _ipfsCID
+        );
+    }
+
+    // Vote to accept a project, it is audited once auditorQuorum auditors approved it
+    function acceptProject(uint256 _projectId) public onlyRole(AUDITOR_ROLE) {
+        if(!castAuditVote(_projectId, true))
+            return;
+        ProjectStatus previousStatus = projects[_projectId].status;
+        setProjectStatus(_projectId, ProjectStatus.Audited, "Audit approved");
         projects[_projectId].authenticationDate = block.timestamp;
-        projects[_projectId].creditsIssued = getRiskCorrectedCreditAmount(projects[_projectId].carbonRemoved);
+        // Monitoring periods keep the issuance they were recorded with when a project is audited again
+        (uint256 monitoredCarbon, uint256 monitoredCredits) = getMonitoredTotals(_projectId);
+        uint256 creditsIssued = monitoredCredits + getRiskCorrectedCreditAmount(
+            projects[_projectId].carbonRemoved - monitoredCarbon, 
+            getProjectMintPercentage(_projectId)
+        );
+        // A lower mint percentage can't take back credits that were already issued to vintages
+        if(creditsIssued < projectVintageCreditsTotal[_projectId])
+            creditsIssued = projectVintageCreditsTotal[_projectId];
+        projects[_projectId].creditsIssued = creditsIssued;
+        contributeToBuffer(_projectId, projects[_projectId].carbonRemoved - creditsIssued);
+        emit ProjectAccepted(_projectId, msg.sender, creditsIssued, previousStatus);
+    }
+
+    // Mint the part of _withheldCredits that hasn't been contributed to the buffer pool yet
+    function contributeToBuffer(uint256 _projectId, uint256 _withheldCredits) private {
+        uint256 contributed = projectBuffers[_projectId].contributed;
+        if(_withheldCredits <= contributed || bufferPool == address(0) || address(carbonToken) == address(0))
+            return;
+        uint256 contribution = _withheldCredits - contributed;
+        projectBuffers[_projectId].contributed = _withheldCredits;
+        projectBufferPoolCredits[_projectId][bufferPool] += contribution;
+        carbonToken.mintBufferCredits(bufferPool, _projectId, contribution);
+        emit BufferCreditsContributed(_projectId, contribution);
     }
     
+    // Vote to reject a project, it is rejected once auditorQuorum auditors rejected it
     function rejectProject(uint256 _projectId) public onlyRole(AUDITOR_ROLE) {
+        if(!castAuditVote(_projectId, false))
+            return;
+        ProjectStatus previousStatus = projects[_projectId].status;
+        setProjectStatus(_projectId, ProjectStatus.Rejected, "Audit rejected");
+        emit ProjectRejected(_projectId, msg.sender, previousStatus);
+    }
+
+    // Invalidate an audited project until it is reinstated, blocks minting and new listings
+    function suspendProject(uint256 _projectId, string calldata _reason) external onlyRole(AUDITOR_ROLE) {
+        ProjectStatus status = getProjectStatus(_projectId);
+        if(status != ProjectStatus.Audited)
+            revert InvalidStatusTransition(status);
+        setProjectStatus(_projectId, ProjectStatus.Suspended, _reason);
+    }
+
+    function reinstateProject(uint256 _projectId, string calldata _reason) external onlyRole(AUDITOR_ROLE) {
+        ProjectStatus status = getProjectStatus(_projectId);
+        if(status != ProjectStatus.Suspended)
+            revert InvalidStatusTransition(status);
+        setProjectStatus(_projectId, ProjectStatus.Audited, _reason);
+    }
+
+    // Permanently invalidate an audited or suspended project
+    function revokeProject(uint256 _projectId, string calldata _reason) external onlyRole(AUDITOR_ROLE) {
+        ProjectStatus status = getProjectStatus(_projectId);
+        if(status != ProjectStatus.Audited && status != ProjectStatus.Suspended)
+            revert InvalidStatusTransition(status);
+        setProjectStatus(_projectId, ProjectStatus.Revoked, _reason);
+    }
+
+    function setProjectStatus(uint256 _projectId, ProjectStatus _status, string memory _reason) private {
+        ProjectStatus previousStatus = projects[_projectId].status;
+        projects[_projectId].status = _status;
+        emit ProjectStatusChanged(_projectId, previousStatus, _status, _reason);
+    }
+
+    // Record the auditor's vote and return whether the vote reached the quorum
+    function castAuditVote(uint256 _projectId, bool _approve) private returns(bool) {
         if(!projectExists(_projectId))
             revert ProjectNotFound();
-        if(projects[_projectId].status == ProjectStatus.Audited)
+        ProjectMetadata storage project = projects[_projectId];
+        if(project.projectOwner == msg.sender)
+            revert ProjectOwnerCannotVote();
+        if(project.status == ProjectStatus.Audited)
             revert ProjectAlreadyAudited();
-        projects[_projectId].status = ProjectStatus.Rejected;
+        if(project.status == ProjectStatus.Rejected)
+            revert ProjectAlreadyRejected();
+        if(project.status != ProjectStatus.Pending)
+            revert InvalidStatusTransition(project.status);
+        AuditVotes storage votes = auditVotes[_projectId];
+        if(hasVoted[_projectId][votes.round][msg.sender])
+            revert AlreadyVoted();
+        hasVoted[_projectId][votes.round][msg.sender] = true;
+        uint8 voteCount = _approve ? ++votes.approvals : ++votes.rejections;
+        emit AuditVoteCast(_projectId, msg.sender, _approve, votes.approvals, votes.rejections);
+        return voteCount >= auditorQuorum;
+    }
+
+    // Release part of the project's issued credits as a vintage, a vintage can be topped up later
+    function issueVintage(uint256 _projectId, uint16 _vintage, uint256 _creditsAmount) external onlyRole(AUDITOR_ROLE) {
+        if(!projectExists(_projectId))
+            revert ProjectNotFound();
+        if(_vintage == 0)
+            revert InvalidVintage(_vintage);
+        uint256 available = projects[_projectId].creditsIssued - projectVintageCreditsTotal[_projectId];
+        if(_creditsAmount == 0 || _creditsAmount > available)
+            revert VintageExceedsIssuedCredits(available);
+        if(vintageCreditsIssued[_projectId][_vintage] == 0)
+            projectVintages[_projectId].push(_vintage);
+        vintageCreditsIssued[_projectId][_vintage] += _creditsAmount;
+        projectVintageCreditsTotal[_projectId] += _creditsAmount;
+        emit VintageIssued(_projectId, _vintage, _creditsAmount);
     }
 
     function projectExists(uint256 _projectId) public view returns (bool) {
@@ -114,17 +441,101 @@ contract CarbonProjectRegistry is AccessControl {
         return projects[_projectId].creditsIssued;
     }
 
-    // function isProjectAudited(uint256 projectId) public view returns(bool) {
-    //     return projects[projectId].status == ProjectStatus.Audited;
-    // }
+    function getMonitoringPeriods(uint256 _projectId) external view returns(MonitoringPeriod[] memory periods) {
+        periods = new MonitoringPeriod[](projectMonitoringPeriodCount[_projectId]);
+        for(uint256 i = 0; i < periods.length; i++){
+            periods[i] = projectMonitoringPeriods[_projectId][i];
+        }
+    }
+
+    function getMonitoredTotals(uint256 _projectId) private view returns(uint256 carbonRemoved, uint256 creditsIssued) {
+        uint256 periodCount = projectMonitoringPeriodCount[_projectId];
+        for(uint256 i = 0; i < periodCount; i++){
+            carbonRemoved += projectMonitoringPeriods[_projectId][i].carbonRemoved;
+            creditsIssued += projectMonitoringPeriods[_projectId][i].creditsIssued;
+        }
+    }
+
+    function getProjectIpfsCID(uint256 _projectId) public view returns(string memory) {
+        return projects[_projectId].ipfsCID;
+    }
+
+    function getVintageIssuedCredits(uint256 _projectId, uint16 _vintage) public view returns(uint256) {
+        return vintageCreditsIssued[_projectId][_vintage];
+    }
+
+    function getProjectVintages(uint256 _projectId) external view returns(uint16[] memory) {
+        return projectVintages[_projectId];
+    }
+
+    function getProjectRoyalty(uint256 _projectId) public view returns(address, uint16) {
+        return (projects[_projectId].projectOwner, projectRoyaltyBasisPoints[_projectId]);
+    }
+
+    function getProjectStatus(uint256 _projectId) public view returns(ProjectStatus) {
+        if(!projectExists(_projectId))
+            revert ProjectNotFound();
+        return projects[_projectId].status;
+    }
+
+    // Only audited projects can be minted and listed, suspended and revoked projects are not audited anymore
+    function isProjectAudited(uint256 _projectId) public view returns(bool) {
+        return projects[_projectId].status == ProjectStatus.Audited;
+    }
 
         
+    error AlreadyProjectOwner(address account);
+    error AlreadyVoted();
+    error ApplicationAlreadyPending(address applicant);
+    error InsufficientBufferCredits(uint256 availableCredits);
+    error InvalidMintPercentage(uint8 mintPercentage);
+    error InvalidQuorum(uint8 quorum);
     error InvalidReductionAmount(uint256 carbonReduced);
+    error InvalidStatusTransition(ProjectStatus currentStatus);
+    error InvalidVintage(uint16 vintage);
+    error NoPendingApplication(address applicant);
     error NotProjectOwner();
     error ProjectAlreadyExists(string verificationId);
     error ProjectAlreadyAudited();
+    error ProjectAlreadyRejected();
+    error ProjectNotAudited();
     error ProjectNotFound();
+    error ProjectOwnerCannotVote();
+    error RoyaltyTooHigh(uint16 royaltyBasisPoints);
     error UnauthorizedAccount(address account, bytes32[2] neededRoles);
+    error VintageExceedsIssuedCredits(uint256 availableCredits);
+
+    event AuditorQuorumUpdated(uint8 auditorQuorum);
+
+    event BufferCreditsCancelled(uint256 indexed projectId, uint256 amount, string reason);
+
+    event BufferCreditsContributed(uint256 indexed projectId, uint256 amount);
+
+    event BufferPoolUpdated(address bufferPool);
+
+    event AuditVoteCast(
+        uint256 indexed projectId,
+        address indexed auditor,
+        bool approved,
+        uint8 approvals,
+        uint8 rejections
+    );
+
+    event MonitoringPeriodRecorded(
+        uint256 indexed projectId,
+        uint256 indexed periodIndex,
+        address indexed auditor,
+        uint256 carbonRemoved,
+        uint256 creditsIssued,
+        string ipfsCID
+    );
+
+    event ProjectAccepted(
+        uint256 indexed projectId,
+        address indexed auditor,
+        uint256 creditsIssued,
+        ProjectStatus previousStatus
+    );
 
     event ProjectAdded(
         address indexed projectOwner,
@@ -132,4 +543,53 @@ contract CarbonProjectRegistry is AccessControl {
         uint256 carbonReduced,
         string ipfsCID
     );
-}
\ No newline at end of file
+
+    event ProjectMetadataUpdated(
+        uint256 indexed projectId,
+        address indexed updatedBy,
+        string newIpfsCID,
+        ProjectStatus previousStatus
+    );
+
+    event ProjectMintPercentageUpdated(uint256 indexed projectId, uint8 mintPercentage);
+
+    event ProjectOwnerApplicationReviewed(
+        address indexed applicant,
+        address indexed reviewer,
+        bool approved,
+        string reason
+    );
+
+    event ProjectOwnerApplicationSubmitted(address indexed applicant, string kycIpfsCID);
+
+    event ProjectOwnershipTransferred(
+        uint256 indexed projectId,
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+
+    event ProjectRejected(
+        uint256 indexed projectId,
+        address indexed auditor,
+        ProjectStatus previousStatus
+    );
+
+    event ProjectStatusChanged(
+        uint256 indexed projectId,
+        ProjectStatus previousStatus,
+        ProjectStatus newStatus,
+        string reason
+    );
+
+    event ProjectRoyaltyUpdated(
+        uint256 indexed projectId,
+        address indexed projectOwner,
+        uint16 royaltyBasisPoints
+    );
+
+    event VintageIssued(
+        uint256 indexed projectId,
+        uint16 indexed vintage,
+        uint256 creditsAmount
+    );
+}
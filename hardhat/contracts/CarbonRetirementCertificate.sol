@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import "./CarbonCreditToken.sol";
+
+// Non-transferable proof of retirement, one certificate is minted to the retiree for every retirement
+contract CarbonRetirementCertificate is ERC721 {
+    using Strings for uint256;
+
+    CarbonCreditToken public carbonToken;
+
+    struct Certificate {
+        address retiree;
+        uint256 projectId;
+        uint16 vintage;
+        uint256 amount;
+        uint256 timestamp;
+        string beneficiary;
+        string description;
+    }
+    // Mapping of retirement ID to Certificate, retirement IDs are sequential
+    mapping(uint256 => Certificate) private certificates;
+    uint256 public nextRetirementId;
+    mapping(address => uint256[]) private retireeCertificates;
+
+    constructor(address _carbonToken) ERC721("Carbon Retirement Certificate", "CRC") {
+        carbonToken = CarbonCreditToken(_carbonToken);
+    }
+
+    // Called by the credit token after credits have been burned
+    function issueCertificate(
+        address _retiree,
+        uint256 _tokenId,
+        uint256 _amount,
+        string calldata _beneficiary,
+        string calldata _description
+    )
+        external
+        returns(uint256 retirementId)
+    {
+        if(msg.sender != address(carbonToken))
+            revert NotCarbonToken();
+        retirementId = nextRetirementId++;
+        certificates[retirementId] = Certificate({
+            retiree: _retiree,
+            projectId: carbonToken.getProjectId(_tokenId),
+            vintage: carbonToken.getVintage(_tokenId),
+            amount: _amount,
+            timestamp: block.timestamp,
+            beneficiary: _beneficiary,
+            description: _description
+        });
+        retireeCertificates[_retiree].push(retirementId);
+        // Plain mint, the certificate is soulbound so a receiver check would only block retirements by contracts
+        _mint(_retiree, retirementId);
+        emit CertificateIssued(retirementId, _retiree, _tokenId, _amount);
+    }
+
+    function getCertificate(uint256 _retirementId) external view returns(Certificate memory) {
+        _requireOwned(_retirementId);
+        return certificates[_retirementId];
+    }
+
+    function getRetireeCertificates(address _retiree) external view returns(uint256[] memory) {
+        return retireeCertificates[_retiree];
+    }
+
+    function tokenURI(uint256 _retirementId) public view override returns(string memory) {
+        _requireOwned(_retirementId);
+        Certificate memory certificate = certificates[_retirementId];
+        string memory json = string.concat(
+            '{"name":"Retirement Certificate #', _retirementId.toString(),
+            '","description":"', sanitize(certificate.description),
+            '","image":"data:image/svg+xml;base64,', Base64.encode(bytes(renderSvg(_retirementId, certificate))),
+            '","attributes":', renderAttributes(certificate),
+            '}'
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    function renderAttributes(Certificate memory _certificate) private pure returns(string memory) {
+        return string.concat(
+            '[{"trait_type":"Project","value":', _certificate.projectId.toString(),
+            '},{"trait_type":"Vintage","value":', uint256(_certificate.vintage).toString(),
+            '},{"trait_type":"Credits","value":', _certificate.amount.toString(),
+            '},{"trait_type":"Beneficiary","value":"', sanitize(_certificate.beneficiary),
+            '"},{"display_type":"date","trait_type":"Retired","value":', _certificate.timestamp.toString(),
+            '}]'
+        );
+    }
+
+    function renderSvg(uint256 _retirementId, Certificate memory _certificate) private pure returns(string memory) {
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="500" height="300" font-family="sans-serif">',
+            '<rect width="500" height="300" fill="#f4f9f4" stroke="#2e7d32" stroke-width="8"/>',
+            '<text x="250" y="50" text-anchor="middle" font-size="22" fill="#2e7d32">Carbon Retirement Certificate</text>',
+            '<text x="250" y="80" text-anchor="middle" font-size="14">#', _retirementId.toString(), '</text>',
+            '<text x="30" y="130" font-size="16">', _certificate.amount.toString(), ' tonnes retired</text>',
+            '<text x="30" y="160" font-size="14">Project ', _certificate.projectId.toString(),
+            ', vintage ', uint256(_certificate.vintage).toString(), '</text>',
+            '<text x="30" y="190" font-size="14">Beneficiary: ', sanitize(_certificate.beneficiary), '</text>',
+            '<text x="30" y="220" font-size="12">Retired by ', Strings.toHexString(_certificate.retiree), '</text>',
+            '</svg>'
+        );
+    }
+
+    // Replace characters that would break the JSON or the SVG markup, the raw strings are available via getCertificate
+    function sanitize(string memory _text) private pure returns(string memory) {
+        bytes memory text = bytes(_text);
+        for(uint256 i = 0; i < text.length; i++){
+            bytes1 char = text[i];
+            if(char < 0x20 || char == '"' || char == "\\" || char == "<" || char == ">" || char == "&")
+                text[i] = "_";
+        }
+        return string(text);
+    }
+
+    // Certificates can be minted but never transferred
+    function _update(address to, uint256 tokenId, address auth) internal override returns(address) {
+        if(_ownerOf(tokenId) != address(0))
+            revert NonTransferableCertificate(tokenId);
+        return super._update(to, tokenId, auth);
+    }
+
+    error NonTransferableCertificate(uint256 retirementId);
+    error NotCarbonToken();
+
+    event CertificateIssued(
+        uint256 indexed retirementId,
+        address indexed retiree,
+        uint256 indexed tokenId,
+        uint256 amount
+    );
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+// Compiles the proxy the Ignition modules deploy in front of the registry, token and marketplace
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/utils/Address.sol";
+
+// Contract account without token receiver hooks, forwards arbitrary calls in tests
+contract CallForwarderMock {
+    function execute(address _target, bytes calldata _data) external payable returns(bytes memory) {
+        return Address.functionCallWithValue(_target, _data, msg.value);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../CarbonProjectRegistry.sol";
+import "../CarbonCreditToken.sol";
+import "../CarbonCreditMarketplace.sol";
+
+// Second implementations used to test proxy upgrades
+contract CarbonProjectRegistryV2Mock is CarbonProjectRegistry {
+    // Appended after the V1 state
+    string public releaseNote;
+
+    function initializeV2(string calldata _releaseNote) external reinitializer(2) {
+        releaseNote = _releaseNote;
+    }
+
+    function version() external pure returns(uint8) {
+        return 2;
+    }
+}
+
+/// @custom:oz-upgrades-unsafe-allow missing-initializer
+contract CarbonCreditTokenV2Mock is CarbonCreditToken {
+    function version() external pure returns(uint8) {
+        return 2;
+    }
+}
+
+/// @custom:oz-upgrades-unsafe-allow missing-initializer
+contract CarbonCreditMarketplaceV2Mock is CarbonCreditMarketplace {
+    function version() external pure returns(uint8) {
+        return 2;
+    }
+}
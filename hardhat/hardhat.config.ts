@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "@openzeppelin/hardhat-upgrades";
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -9,6 +10,7 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 500,
       },
+      viaIR: true,
     },
   },  
   
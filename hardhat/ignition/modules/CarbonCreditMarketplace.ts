@@ -1,12 +1,27 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 
+type ModuleBuilder = Parameters<Parameters<typeof buildModule>[1]>[0];
+type ProxiedContract = "CarbonProjectRegistry" | "CarbonCreditToken" | "CarbonCreditMarketplace";
+
+// Deploys the implementation behind an ERC1967 (UUPS) proxy, initialize() replaces the constructor
+function deployProxy(
+  m: ModuleBuilder,
+  contractName: ProxiedContract,
+  initializeArgs: Parameters<ModuleBuilder["encodeFunctionCall"]>[2]
+) {
+  const implementation = m.contract(contractName, [], { id: `${contractName}Implementation` });
+  const initializeCall = m.encodeFunctionCall(implementation, "initialize", initializeArgs);
+  const proxy = m.contract("ERC1967Proxy", [implementation, initializeCall], { id: `${contractName}Proxy` });
+  return m.contractAt(contractName, proxy);
+}
+
 const CarbonCreditsDeploymentModule = buildModule("CarbonCreditsDeployment", (m) => {
   // Deploy CarbonProjectRegistry first
   const defaultAdmin = m.getAccount(0);
   const defaultProjectOwner = m.getAccount(1);
   const mintPercentage = m.getParameter("mintPercentage", 10); // Default to 10% if not specified
 
-  const carbonProjectRegistry = m.contract("CarbonProjectRegistry", [
+  const carbonProjectRegistry = deployProxy(m, "CarbonProjectRegistry", [
     mintPercentage,
     defaultAdmin,
     defaultProjectOwner
@@ -15,25 +30,117 @@ const CarbonCreditsDeploymentModule = buildModule("CarbonCreditsDeployment", (m)
   // Deploy CarbonCreditToken 
   const tokenManager = m.getAccount(2);
 
-  const carbonCreditToken = m.contract("CarbonCreditToken", [
+  const carbonCreditToken = deployProxy(m, "CarbonCreditToken", [
     defaultAdmin,
     tokenManager,
     carbonProjectRegistry // Pass the deployed registry address
   ]);
 
+  // Let the registry announce metadata changes and mint buffer credits through the token
+  m.call(carbonProjectRegistry, "setCarbonToken", [carbonCreditToken], {
+    from: defaultAdmin
+  });
+  const bufferPool = m.getParameter("bufferPool", defaultAdmin); // Default to the admin if not specified
+  m.call(carbonProjectRegistry, "setBufferPool", [bufferPool], {
+    from: defaultAdmin
+  });
+
+  // Deploy CarbonRetirementCertificate, minted by the token on every retirement
+  const carbonRetirementCertificate = m.contract("CarbonRetirementCertificate", [
+    carbonCreditToken
+  ]);
+  m.call(carbonCreditToken, "setRetirementCertificate", [carbonRetirementCertificate], {
+    from: defaultAdmin
+  });
+
   // Deploy CarbonCreditMarketplace
   const initialOwner = m.getAccount(3);
 
-  const carbonCreditMarketplace = m.contract("CarbonCreditMarketplace", [
+  const carbonCreditMarketplace = deployProxy(m, "CarbonCreditMarketplace", [
     carbonCreditToken,
     carbonProjectRegistry,
     initialOwner
   ]);
 
+  // Allow the marketplace to retire credits for buyers
+  const retirementAgentRole = m.staticCall(carbonCreditToken, "RETIREMENT_AGENT_ROLE");
+  m.call(carbonCreditToken, "grantRole", [retirementAgentRole, carbonCreditMarketplace], {
+    from: defaultAdmin
+  });
+
+  // Deploy CarbonFeeTreasury, it splits the platform fees between the recipients configured by its owner
+  const carbonFeeTreasury = m.contract("CarbonFeeTreasury", [carbonCreditMarketplace, initialOwner]);
+  m.call(carbonCreditMarketplace, "setFeeTreasury", [carbonFeeTreasury], {
+    from: initialOwner
+  });
+  // Part of every fee claim funds the rewards for closing expired orders
+  const keeperReserveBasisPoints = m.getParameter("keeperReserveBasisPoints", 1000); // Default to 10% if not specified
+  m.call(carbonFeeTreasury, "updateKeeperReserveShare", [keeperReserveBasisPoints], {
+    from: initialOwner
+  });
+
+  // Deploy CarbonFeeSchedule, without tiers or overrides every trade still pays the platform fee
+  const carbonFeeSchedule = m.contract("CarbonFeeSchedule", [carbonCreditMarketplace, initialOwner]);
+  m.call(carbonCreditMarketplace, "setFeeSchedule", [carbonFeeSchedule], {
+    from: initialOwner
+  });
+
+  // Deploy CarbonCreditAuctionHouse, it follows the marketplace fee and pause
+  const carbonCreditAuctionHouse = m.contract("CarbonCreditAuctionHouse", [
+    carbonCreditMarketplace
+  ]);
+  m.call(carbonFeeSchedule, "setTradeRecorder", [carbonCreditAuctionHouse, true], {
+    from: initialOwner
+  });
+
+  // Deploy CarbonKYCRegistry, transfer restrictions stay off until enabled per project or globally
+  const carbonKYCRegistry = m.contract("CarbonKYCRegistry", [defaultAdmin, defaultAdmin]);
+  m.call(carbonCreditToken, "setKYCRegistry", [carbonKYCRegistry], {
+    from: defaultAdmin
+  });
+  // Escrow contracts don't need to be verified themselves
+  m.call(carbonCreditToken, "setTransferRestrictionExempt", [carbonCreditMarketplace, true], {
+    id: "exemptMarketplace",
+    from: defaultAdmin
+  });
+  m.call(carbonCreditToken, "setTransferRestrictionExempt", [carbonCreditAuctionHouse, true], {
+    id: "exemptAuctionHouse",
+    from: defaultAdmin
+  });
+
+  // Deploy CarbonCreditPool, a fungible basket of credits from projects matching the pool criteria
+  const carbonCreditPool = m.contract("CarbonCreditPool", [
+    m.getParameter("poolName", "Carbon Tonne"),
+    m.getParameter("poolSymbol", "CTON"),
+    carbonCreditToken,
+    carbonProjectRegistry,
+    initialOwner,
+    {
+      minVintage: m.getParameter("poolMinVintage", 2020),
+      maxVintage: m.getParameter("poolMaxVintage", 2100),
+      minAuditDate: m.getParameter("poolMinAuditDate", 0)
+    }
+  ]);
+  // Let the pool retire pooled credits for its holders
+  m.call(carbonCreditToken, "grantRole", [retirementAgentRole, carbonCreditPool], {
+    id: "grantRetirementAgentPool",
+    from: defaultAdmin
+  });
+  m.call(carbonCreditToken, "setTransferRestrictionExempt", [carbonCreditPool, true], {
+    id: "exemptPool",
+    from: defaultAdmin
+  });
+
   return { 
     carbonProjectRegistry, 
     carbonCreditToken, 
-    carbonCreditMarketplace 
+    carbonRetirementCertificate,
+    carbonCreditMarketplace,
+    carbonFeeTreasury,
+    carbonFeeSchedule,
+    carbonCreditAuctionHouse,
+    carbonKYCRegistry,
+    carbonCreditPool
   };
 });
 
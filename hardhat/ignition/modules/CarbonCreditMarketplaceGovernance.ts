@@ -0,0 +1,92 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import CarbonCreditsDeploymentModule from "./CarbonCreditMarketplace";
+
+const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const TWO_DAYS = 2 * 24 * 60 * 60;
+
+// Same deployment, with owner and admin roles handed over to a timelock once it is wired up
+const CarbonCreditsGovernanceModule = buildModule("CarbonCreditsGovernance", (m) => {
+  const {
+    carbonProjectRegistry,
+    carbonCreditToken,
+    carbonRetirementCertificate,
+    carbonCreditMarketplace,
+    carbonFeeTreasury,
+    carbonFeeSchedule,
+    carbonCreditAuctionHouse,
+    carbonKYCRegistry,
+    carbonCreditPool
+  } = m.useModule(CarbonCreditsDeploymentModule);
+
+  const defaultAdmin = m.getAccount(0);
+  const marketplaceOwner = m.getAccount(3);
+  const minDelay = m.getParameter("timelockMinDelay", TWO_DAYS);
+  const proposer = m.getParameter("timelockProposer", defaultAdmin);
+  const executor = m.getParameter("timelockExecutor", m.getAccount(4));
+  const pauseGuardian = m.getParameter("pauseGuardian", defaultAdmin);
+
+  // The timelock administers itself, roles can only change through queued operations
+  const carbonGovernanceTimelock = m.contract("CarbonGovernanceTimelock", [
+    minDelay,
+    [proposer],
+    [executor],
+    ZERO_ADDRESS
+  ]);
+
+  // Pausing stays instant through the guardian, everything else on the marketplace and pool is queued
+  const setPauseGuardian = m.call(carbonCreditMarketplace, "setPauseGuardian", [pauseGuardian], {
+    from: marketplaceOwner
+  });
+  m.call(carbonCreditMarketplace, "transferOwnership", [carbonGovernanceTimelock], {
+    id: "transferMarketplaceOwnership",
+    from: marketplaceOwner,
+    after: [setPauseGuardian, CarbonCreditsDeploymentModule]
+  });
+  m.call(carbonCreditPool, "transferOwnership", [carbonGovernanceTimelock], {
+    id: "transferPoolOwnership",
+    from: marketplaceOwner
+  });
+  m.call(carbonFeeTreasury, "transferOwnership", [carbonGovernanceTimelock], {
+    id: "transferFeeTreasuryOwnership",
+    from: marketplaceOwner,
+    after: [CarbonCreditsDeploymentModule]
+  });
+  m.call(carbonFeeSchedule, "transferOwnership", [carbonGovernanceTimelock], {
+    id: "transferFeeScheduleOwnership",
+    from: marketplaceOwner,
+    after: [CarbonCreditsDeploymentModule]
+  });
+
+  // Move the admin role of the registry, token and KYC registry once the base deployment is configured
+  for (const [name, contract] of [
+    ["Registry", carbonProjectRegistry],
+    ["Token", carbonCreditToken],
+    ["KYCRegistry", carbonKYCRegistry]
+  ] as const) {
+    const grantAdmin = m.call(contract, "grantRole", [DEFAULT_ADMIN_ROLE, carbonGovernanceTimelock], {
+      id: `grantTimelockAdmin${name}`,
+      from: defaultAdmin
+    });
+    m.call(contract, "renounceRole", [DEFAULT_ADMIN_ROLE, defaultAdmin], {
+      id: `renounceAdmin${name}`,
+      from: defaultAdmin,
+      after: [grantAdmin, CarbonCreditsDeploymentModule]
+    });
+  }
+
+  return {
+    carbonProjectRegistry,
+    carbonCreditToken,
+    carbonRetirementCertificate,
+    carbonCreditMarketplace,
+    carbonFeeTreasury,
+    carbonFeeSchedule,
+    carbonCreditAuctionHouse,
+    carbonKYCRegistry,
+    carbonCreditPool,
+    carbonGovernanceTimelock
+  };
+});
+
+export default CarbonCreditsGovernanceModule;
@@ -0,0 +1,52 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import CarbonCreditsDeploymentModule from "./CarbonCreditMarketplace";
+
+// New implementation contract for each proxy, proxies that are left out keep their implementation
+export interface CarbonCreditsImplementations {
+  registry?: string;
+  token?: string;
+  marketplace?: string;
+}
+
+// Upgrades the proxies of CarbonCreditsDeploymentModule, e.g.
+// export default buildCarbonCreditsUpgradeModule("CarbonCreditsUpgradeV2", { registry: "CarbonProjectRegistryV2" });
+// Implementations need new contract names, Ignition rejects changed bytecode for contracts it already deployed.
+// Once the governance variant handed the admin roles to the timelock, upgrades have to be queued there instead.
+export function buildCarbonCreditsUpgradeModule(
+  moduleId: string,
+  implementations: CarbonCreditsImplementations
+) {
+  return buildModule(moduleId, (m) => {
+    const deployment = m.useModule(CarbonCreditsDeploymentModule);
+    const defaultAdmin = m.getAccount(0);
+    const marketplaceOwner = m.getAccount(3);
+    // Optional call on the new implementation, e.g. a reinitializer
+    const registryUpgradeData = m.getParameter("registryUpgradeData", "0x");
+    const tokenUpgradeData = m.getParameter("tokenUpgradeData", "0x");
+    const marketplaceUpgradeData = m.getParameter("marketplaceUpgradeData", "0x");
+
+    if (implementations.registry) {
+      const implementation = m.contract(implementations.registry, []);
+      m.call(deployment.carbonProjectRegistry, "upgradeToAndCall", [implementation, registryUpgradeData], {
+        from: defaultAdmin,
+        after: [CarbonCreditsDeploymentModule]
+      });
+    }
+    if (implementations.token) {
+      const implementation = m.contract(implementations.token, []);
+      m.call(deployment.carbonCreditToken, "upgradeToAndCall", [implementation, tokenUpgradeData], {
+        from: defaultAdmin,
+        after: [CarbonCreditsDeploymentModule]
+      });
+    }
+    if (implementations.marketplace) {
+      const implementation = m.contract(implementations.marketplace, []);
+      m.call(deployment.carbonCreditMarketplace, "upgradeToAndCall", [implementation, marketplaceUpgradeData], {
+        from: marketplaceOwner,
+        after: [CarbonCreditsDeploymentModule]
+      });
+    }
+
+    return deployment;
+  });
+}
@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import { CarbonProjectRegistry } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 describe("CarbonProjectRegistry", function () {
   let projectRegistry: CarbonProjectRegistry;
@@ -27,13 +28,18 @@ describe("CarbonProjectRegistry", function () {
   const projectNotFoundError = "ProjectNotFound";
   const unauthorizedAccountError = "UnauthorizedAccount";
 
+  //Events
+  const projectAcceptedEvent = "ProjectAccepted";
+  const projectRejectedEvent = "ProjectRejected";
+  const projectMetadataUpdatedEvent = "ProjectMetadataUpdated";
+
 
   async function deployCarbonProjectRegistry() {
     [admin, projectOwner, auditor, otherAccount] = await ethers.getSigners();
 
     // Deploy
     const CarbonProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
-    projectRegistry = await CarbonProjectRegistryFactory.deploy(initMintPct, admin.address, projectOwner.address);
+    projectRegistry = await upgrades.deployProxy(CarbonProjectRegistryFactory, [initMintPct, admin.address, projectOwner.address]) as unknown as CarbonProjectRegistry;
 
     // Grant auditor role to auditor account
     await projectRegistry.connect(admin).grantRole(
@@ -48,7 +54,7 @@ describe("CarbonProjectRegistry", function () {
 
   beforeEach(async function () {
     await deployCarbonProjectRegistry();
-    addValidProject(projectRegistry, projectOwner);
+    await addValidProject(projectRegistry, projectOwner);
   });
   
   describe("Adding a project", function(){
@@ -90,13 +96,16 @@ describe("CarbonProjectRegistry", function () {
 
   describe("Auditing a project", function(){
     it("should allow auditor to accept project", async function () {  
+      const mintPercentage = await projectRegistry.mintPercentage();
+      const correctedCreditAmount = BigInt(carbonRemoved) * BigInt(mintPercentage) / BigInt(100);
+
       // Update project status
-      await projectRegistry.connect(auditor).acceptProject(projectId);
+      await expect(
+        projectRegistry.connect(auditor).acceptProject(projectId)
+      ).to.emit(projectRegistry, projectAcceptedEvent).withArgs(projectId, auditor.address, correctedCreditAmount, 0);
   
       // Fetch the updated project details
       const project = await projectRegistry.projects(projectId);
-      const mintPercentage = await projectRegistry.mintPercentage();
-      const correctedCreditAmount = BigInt(carbonRemoved) * BigInt(mintPercentage) / BigInt(100);
       
       // Assert the updated status and verification date
       expect(project.status).to.equal(1); // ProjectStatus.Verified
@@ -114,7 +123,9 @@ describe("CarbonProjectRegistry", function () {
 
     it("should allow auditor to reject project", async function () {
       // Update project status by verifier
-      await projectRegistry.connect(auditor).rejectProject(projectId);
+      await expect(
+        projectRegistry.connect(auditor).rejectProject(projectId)
+      ).to.emit(projectRegistry, projectRejectedEvent).withArgs(projectId, auditor.address, 0);
   
       // Fetch the updated project details
       const project = await projectRegistry.projects(projectId);
@@ -157,13 +168,200 @@ describe("CarbonProjectRegistry", function () {
     });
   })
 
+  describe("Auditor quorum", function(){
+    const auditVoteCastEvent = "AuditVoteCast";
+
+    beforeEach(async function () {
+      await projectRegistry.connect(admin).updateAuditorQuorum(2);
+    });
+
+    it("should only accept a project once the quorum approved it", async function () {
+      const firstVote = projectRegistry.connect(auditor).acceptProject(projectId);
+      await expect(firstVote).to.emit(projectRegistry, auditVoteCastEvent).withArgs(projectId, auditor.address, true, 1, 0);
+      await expect(firstVote).not.to.emit(projectRegistry, projectAcceptedEvent);
+      expect((await projectRegistry.projects(projectId)).status).to.equal(0); // ProjectStatus.Pending
+
+      await expect(
+        projectRegistry.connect(auditor).acceptProject(projectId)
+      ).to.revertedWithCustomError(projectRegistry, "AlreadyVoted");
+
+      await projectRegistry.connect(admin).rejectProject(projectId);
+      await projectRegistry.grantRole(await projectRegistry.AUDITOR_ROLE(), otherAccount.address);
+      await expect(
+        projectRegistry.connect(otherAccount).acceptProject(projectId)
+      ).to.emit(projectRegistry, projectAcceptedEvent).withArgs(projectId, otherAccount.address, anyValue, 0);
+      expect((await projectRegistry.projects(projectId)).status).to.equal(1); // ProjectStatus.Audited
+    });
+
+    it("should only reject a project once the quorum rejected it", async function () {
+      await projectRegistry.connect(auditor).rejectProject(projectId);
+      expect((await projectRegistry.projects(projectId)).status).to.equal(0); // ProjectStatus.Pending
+      await projectRegistry.connect(admin).rejectProject(projectId);
+      expect((await projectRegistry.projects(projectId)).status).to.equal(2); // ProjectStatus.Rejected
+
+      await expect(
+        projectRegistry.connect(auditor).acceptProject(projectId)
+      ).to.revertedWithCustomError(projectRegistry, "ProjectAlreadyRejected");
+    });
+
+    it("shouldn't let project owners vote on their own project", async function () {
+      await projectRegistry.grantRole(await projectRegistry.AUDITOR_ROLE(), projectOwner.address);
+      await expect(
+        projectRegistry.connect(projectOwner).acceptProject(projectId)
+      ).to.revertedWithCustomError(projectRegistry, "ProjectOwnerCannotVote");
+    });
+
+    it("should start a new round when the metadata changes", async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      await projectRegistry.connect(projectOwner).updateProjectMetaData(projectId, updatedIpfsCID);
+
+      const votes = await projectRegistry.auditVotes(projectId);
+      expect(votes.round).to.equal(1);
+      expect(votes.approvals).to.equal(0);
+      await expect(
+        projectRegistry.connect(auditor).acceptProject(projectId)
+      ).to.emit(projectRegistry, auditVoteCastEvent).withArgs(projectId, auditor.address, true, 1, 0);
+    });
+
+    it("should only let the admin set a non-zero quorum", async function () {
+      await expect(
+        projectRegistry.connect(admin).updateAuditorQuorum(0)
+      ).to.revertedWithCustomError(projectRegistry, "InvalidQuorum").withArgs(0);
+      await expect(
+        projectRegistry.connect(auditor).updateAuditorQuorum(3)
+      ).to.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+    });
+  })
+
+  describe("Project lifecycle", function(){
+    const statusChangedEvent = "ProjectStatusChanged";
+    const invalidTransitionError = "InvalidStatusTransition";
+
+    beforeEach(async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+    });
+
+    it("should suspend and reinstate an audited project", async function () {
+      await expect(
+        projectRegistry.connect(auditor).suspendProject(projectId, "Under investigation")
+      ).to.emit(projectRegistry, statusChangedEvent).withArgs(projectId, 1, 3, "Under investigation");
+      expect(await projectRegistry.isProjectAudited(projectId)).to.be.false;
+
+      await expect(
+        projectRegistry.connect(auditor).reinstateProject(projectId, "Investigation closed")
+      ).to.emit(projectRegistry, statusChangedEvent).withArgs(projectId, 3, 1, "Investigation closed");
+      expect(await projectRegistry.isProjectAudited(projectId)).to.be.true;
+    });
+
+    it("should revoke a project permanently", async function () {
+      await projectRegistry.connect(auditor).suspendProject(projectId, "Under investigation");
+      await expect(
+        projectRegistry.connect(auditor).revokeProject(projectId, "Invalidated by the standard body")
+      ).to.emit(projectRegistry, statusChangedEvent).withArgs(projectId, 3, 4, "Invalidated by the standard body");
+
+      await expect(
+        projectRegistry.connect(auditor).reinstateProject(projectId, "")
+      ).to.revertedWithCustomError(projectRegistry, invalidTransitionError).withArgs(4);
+      await expect(
+        projectRegistry.connect(auditor).updateProjectMetaData(projectId, updatedIpfsCID)
+      ).to.revertedWithCustomError(projectRegistry, invalidTransitionError).withArgs(4);
+      await expect(
+        projectRegistry.connect(auditor).acceptProject(projectId)
+      ).to.revertedWithCustomError(projectRegistry, invalidTransitionError).withArgs(4);
+    });
+
+    it("should only invalidate audited projects", async function () {
+      await projectRegistry.connect(projectOwner).addProject(carbonRemoved, ipfsCID, secondVerificationId);
+      await expect(
+        projectRegistry.connect(auditor).suspendProject(projectId + 1, "")
+      ).to.revertedWithCustomError(projectRegistry, invalidTransitionError).withArgs(0);
+      await expect(
+        projectRegistry.connect(otherAccount).revokeProject(projectId, "")
+      ).to.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+    });
+  })
+
+  describe("Monitoring periods", function(){
+    const periodCarbonRemoved = 200000;
+    const periodCID = "QmMonitoring2025";
+
+    it("should use a per-project mint percentage", async function () {
+      await expect(
+        projectRegistry.connect(auditor).setProjectMintPercentage(projectId, 80)
+      ).to.emit(projectRegistry, "ProjectMintPercentageUpdated").withArgs(projectId, 80);
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      expect(await projectRegistry.getProjectIssuedCredits(projectId)).to.equal(carbonRemoved * 80 / 100);
+
+      await expect(
+        projectRegistry.connect(auditor).setProjectMintPercentage(projectId, 101)
+      ).to.revertedWithCustomError(projectRegistry, "InvalidMintPercentage").withArgs(101);
+    });
+
+    it("should keep vintage issuance when a lower mint percentage applies on a new audit", async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      const initialIssuance = carbonRemoved * initMintPct / 100;
+      await projectRegistry.connect(auditor).issueVintage(projectId, 2024, initialIssuance);
+
+      await projectRegistry.connect(auditor).setProjectMintPercentage(projectId, 50);
+      await projectRegistry.connect(auditor).updateProjectMetaData(projectId, updatedIpfsCID);
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      expect(await projectRegistry.getProjectIssuedCredits(projectId)).to.equal(initialIssuance);
+      await expect(
+        projectRegistry.connect(auditor).issueVintage(projectId, 2025, 1)
+      ).to.revertedWithCustomError(projectRegistry, "VintageExceedsIssuedCredits").withArgs(0);
+    });
+
+    it("should add the issuance of each period to the project", async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      const initialIssuance = carbonRemoved * initMintPct / 100;
+
+      await expect(
+        projectRegistry.connect(auditor).recordMonitoringPeriod(projectId, periodCarbonRemoved, periodCID, 0)
+      ).to.emit(projectRegistry, "MonitoringPeriodRecorded")
+        .withArgs(projectId, 0, auditor.address, periodCarbonRemoved, periodCarbonRemoved * initMintPct / 100, periodCID);
+      await projectRegistry.connect(auditor).recordMonitoringPeriod(projectId, periodCarbonRemoved, periodCID, 50);
+
+      const project = await projectRegistry.projects(projectId);
+      expect(project.carbonRemoved).to.equal(carbonRemoved + 2 * periodCarbonRemoved);
+      expect(project.creditsIssued).to.equal(
+        initialIssuance + periodCarbonRemoved * initMintPct / 100 + periodCarbonRemoved * 50 / 100
+      );
+
+      const periods = await projectRegistry.getMonitoringPeriods(projectId);
+      expect(periods.length).to.equal(2);
+      expect(periods[1].mintPercentage).to.equal(50);
+      expect(periods[1].ipfsCID).to.equal(periodCID);
+
+      // Audit again, the periods keep their own mint percentage
+      await projectRegistry.connect(auditor).updateProjectMetaData(projectId, updatedIpfsCID);
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      expect((await projectRegistry.projects(projectId)).creditsIssued).to.equal(project.creditsIssued);
+    });
+
+    it("should only record periods of audited projects", async function () {
+      await expect(
+        projectRegistry.connect(auditor).recordMonitoringPeriod(projectId, periodCarbonRemoved, periodCID, 0)
+      ).to.revertedWithCustomError(projectRegistry, "ProjectNotAudited");
+
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+      await expect(
+        projectRegistry.connect(auditor).recordMonitoringPeriod(projectId, 0, periodCID, 0)
+      ).to.revertedWithCustomError(projectRegistry, invalidCarbonReducedError).withArgs(0);
+      await expect(
+        projectRegistry.connect(projectOwner).recordMonitoringPeriod(projectId, periodCarbonRemoved, periodCID, 0)
+      ).to.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+    });
+  })
+
   describe("Updating a project", function(){
     it("should allow project owner to update info of a pending project", async function () {     
       // Update project info
-      await projectRegistry.connect(projectOwner).updateProjectMetaData(
-        projectId, 
-        updatedIpfsCID
-      );
+      await expect(
+        projectRegistry.connect(projectOwner).updateProjectMetaData(
+          projectId, 
+          updatedIpfsCID
+        )
+      ).to.emit(projectRegistry, projectMetadataUpdatedEvent).withArgs(projectId, projectOwner.address, updatedIpfsCID, 0);
   
       // Fetch the updated project details
       const project = await projectRegistry.projects(projectId);
@@ -180,10 +378,12 @@ describe("CarbonProjectRegistry", function () {
       );
   
       // Then update project info
-      await projectRegistry.connect(projectOwner).updateProjectMetaData(
-        projectId, 
-        updatedIpfsCID
-      );
+      await expect(
+        projectRegistry.connect(projectOwner).updateProjectMetaData(
+          projectId, 
+          updatedIpfsCID
+        )
+      ).to.emit(projectRegistry, projectMetadataUpdatedEvent).withArgs(projectId, projectOwner.address, updatedIpfsCID, 2);
   
       // Fetch the updated project details
       const project = await projectRegistry.projects(projectId);
@@ -203,6 +403,15 @@ describe("CarbonProjectRegistry", function () {
       ).to.revertedWithCustomError(projectRegistry, notProjectOwnerError);
     });
 
+    it("should allow auditors to send an audited project back to review", async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+
+      await expect(
+        projectRegistry.connect(auditor).updateProjectMetaData(projectId, updatedIpfsCID)
+      ).to.emit(projectRegistry, projectMetadataUpdatedEvent).withArgs(projectId, auditor.address, updatedIpfsCID, 1);
+      expect((await projectRegistry.projects(projectId)).status).to.equal(0); // ProjectStatus.Pending
+    });
+
     it("shouldn't allow project owner to update audited project", async function () {
       await projectRegistry.connect(auditor).acceptProject(projectId);
 
@@ -214,4 +423,132 @@ describe("CarbonProjectRegistry", function () {
       ).to.revertedWithCustomError(projectRegistry, projectAuditedError);
     });
   })
-});
\ No newline at end of file
+
+  describe("Project owner applications", function(){
+    const kycCID = "QmKycDocuments";
+
+    it("should grant the project owner role on approval", async function () {
+      const projectOwnerRole = await projectRegistry.PROJECT_OWNER_ROLE();
+      await expect(
+        projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID)
+      ).to.emit(projectRegistry, "ProjectOwnerApplicationSubmitted").withArgs(otherAccount.address, kycCID);
+      expect(await projectRegistry.getApplicationStatus(otherAccount.address)).to.equal(1); // ApplicationStatus.Pending
+      expect(await projectRegistry.hasRole(projectOwnerRole, otherAccount.address)).to.be.false;
+
+      await expect(
+        projectRegistry.connect(auditor).reviewProjectOwnerApplication(otherAccount.address, true, "KYC complete")
+      ).to.emit(projectRegistry, "ProjectOwnerApplicationReviewed").withArgs(otherAccount.address, auditor.address, true, "KYC complete");
+      expect(await projectRegistry.getApplicationStatus(otherAccount.address)).to.equal(2); // ApplicationStatus.Approved
+      expect(await projectRegistry.hasRole(projectOwnerRole, otherAccount.address)).to.be.true;
+
+      await expect(
+        projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID)
+      ).to.revertedWithCustomError(projectRegistry, "AlreadyProjectOwner").withArgs(otherAccount.address);
+    });
+
+    it("should not grant the role on denial and allow a new application", async function () {
+      await projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID);
+      await expect(
+        projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID)
+      ).to.revertedWithCustomError(projectRegistry, "ApplicationAlreadyPending");
+
+      await projectRegistry.connect(admin).reviewProjectOwnerApplication(otherAccount.address, false, "Missing documents");
+      expect(await projectRegistry.getApplicationStatus(otherAccount.address)).to.equal(3); // ApplicationStatus.Denied
+      expect(await projectRegistry.hasRole(await projectRegistry.PROJECT_OWNER_ROLE(), otherAccount.address)).to.be.false;
+      await expect(
+        projectRegistry.connect(admin).reviewProjectOwnerApplication(otherAccount.address, true, "")
+      ).to.revertedWithCustomError(projectRegistry, "NoPendingApplication").withArgs(otherAccount.address);
+
+      await projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID);
+      expect(await projectRegistry.getApplicationStatus(otherAccount.address)).to.equal(1); // ApplicationStatus.Pending
+    });
+
+    it("should only let admins and auditors review applications", async function () {
+      await projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID);
+      await expect(
+        projectRegistry.connect(projectOwner).reviewProjectOwnerApplication(otherAccount.address, true, "")
+      ).to.revertedWithCustomError(projectRegistry, unauthorizedAccountError);
+    });
+
+    it("should transfer a project to another project owner", async function () {
+      await expect(
+        projectRegistry.connect(projectOwner).transferProjectOwnership(projectId, otherAccount.address)
+      ).to.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+
+      await projectRegistry.connect(otherAccount).applyForProjectOwner(kycCID);
+      await projectRegistry.connect(admin).reviewProjectOwnerApplication(otherAccount.address, true, "");
+      await expect(
+        projectRegistry.connect(projectOwner).transferProjectOwnership(projectId, otherAccount.address)
+      ).to.emit(projectRegistry, "ProjectOwnershipTransferred").withArgs(projectId, projectOwner.address, otherAccount.address);
+      expect((await projectRegistry.projects(projectId)).projectOwner).to.equal(otherAccount.address);
+
+      await expect(
+        projectRegistry.connect(projectOwner).transferProjectOwnership(projectId, projectOwner.address)
+      ).to.revertedWithCustomError(projectRegistry, notProjectOwnerError);
+    });
+  })
+
+  describe("Project royalties", function(){
+    it("should allow project owner to set a royalty", async function () {
+      const royaltyBasisPoints = 250;
+      await expect(
+        projectRegistry.connect(projectOwner).setProjectRoyalty(projectId, royaltyBasisPoints)
+      ).to.emit(projectRegistry, "ProjectRoyaltyUpdated").withArgs(projectId, projectOwner.address, royaltyBasisPoints);
+
+      const [receiver, royalty] = await projectRegistry.getProjectRoyalty(projectId);
+      expect(receiver).to.equal(projectOwner.address);
+      expect(royalty).to.equal(royaltyBasisPoints);
+    });
+
+    it("shouldn't allow a royalty above the cap", async function () {
+      const maxRoyalty = await projectRegistry.MAX_ROYALTY_BASIS_POINTS();
+      await expect(
+        projectRegistry.connect(projectOwner).setProjectRoyalty(projectId, maxRoyalty + 1n)
+      ).to.revertedWithCustomError(projectRegistry, "RoyaltyTooHigh").withArgs(maxRoyalty + 1n);
+    });
+
+    it("shouldn't allow others to set the royalty", async function () {
+      await expect(
+        projectRegistry.connect(auditor).setProjectRoyalty(projectId, 100)
+      ).to.revertedWithCustomError(projectRegistry, notProjectOwnerError);
+    });
+  })
+
+  describe("Project vintages", function(){
+    const vintage = 2024;
+
+    beforeEach(async function () {
+      await projectRegistry.connect(auditor).acceptProject(projectId);
+    });
+
+    it("should issue vintages up to the project's issued credits", async function () {
+      const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+      await expect(
+        projectRegistry.connect(auditor).issueVintage(projectId, vintage - 1, creditsIssued / 2n)
+      ).to.emit(projectRegistry, "VintageIssued").withArgs(projectId, vintage - 1, creditsIssued / 2n);
+      await projectRegistry.connect(auditor).issueVintage(projectId, vintage, 100);
+      await projectRegistry.connect(auditor).issueVintage(projectId, vintage, 100);
+
+      expect(await projectRegistry.getVintageIssuedCredits(projectId, vintage)).to.equal(200);
+      expect(await projectRegistry.getProjectVintages(projectId)).to.deep.equal([vintage - 1, vintage]);
+
+      const available = creditsIssued - creditsIssued / 2n - 200n;
+      await expect(
+        projectRegistry.connect(auditor).issueVintage(projectId, vintage, available + 1n)
+      ).to.revertedWithCustomError(projectRegistry, "VintageExceedsIssuedCredits").withArgs(available);
+    });
+
+    it("shouldn't issue vintages for unaudited projects or by non-auditors", async function () {
+      await projectRegistry.connect(projectOwner).addProject(carbonRemoved, ipfsCID, secondVerificationId);
+      await expect(
+        projectRegistry.connect(auditor).issueVintage(projectId + 1, vintage, 1)
+      ).to.revertedWithCustomError(projectRegistry, "VintageExceedsIssuedCredits").withArgs(0);
+      await expect(
+        projectRegistry.connect(auditor).issueVintage(projectId, 0, 1)
+      ).to.revertedWithCustomError(projectRegistry, "InvalidVintage");
+      await expect(
+        projectRegistry.connect(projectOwner).issueVintage(projectId, vintage, 1)
+      ).to.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+    });
+  })
+});
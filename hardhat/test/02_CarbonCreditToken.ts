@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import { CarbonCreditToken, CarbonProjectRegistry } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 describe("CarbonCreditToken", function() {
   let projectRegistry: CarbonProjectRegistry;
@@ -19,6 +20,8 @@ describe("CarbonCreditToken", function() {
 
   const initMintPct = 90;
   const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
   const ipfsCID = "Qm12345exampleCID";
   const uniqueVerificationId = "0000/2024";
   const carbonRemoved = 100000;
@@ -26,18 +29,18 @@ describe("CarbonCreditToken", function() {
   async function deployContracts() {
     [admin, projectOwner, tokenManager, otherAccount] = await ethers.getSigners();
     const CarbonProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
-    projectRegistry = await CarbonProjectRegistryFactory.deploy(
+    projectRegistry = await upgrades.deployProxy(CarbonProjectRegistryFactory, [
       initMintPct,
       admin.address, 
       projectOwner.address
-    );
+    ]) as unknown as CarbonProjectRegistry;
 
     const CarbonCreditTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
-    carbonToken = await CarbonCreditTokenFactory.deploy(
+    carbonToken = await upgrades.deployProxy(CarbonCreditTokenFactory, [
       admin.address, 
       admin.address, 
-      projectRegistry.getAddress()
-    );
+      await projectRegistry.getAddress()
+    ]) as unknown as CarbonCreditToken;
 
     await carbonToken.connect(admin).grantRole(
       await carbonToken.TOKEN_MANAGER_ROLE(), 
@@ -54,6 +57,11 @@ describe("CarbonCreditToken", function() {
       uniqueVerificationId
     );
     await projectRegistry.connect(admin).acceptProject(projectId);
+    await projectRegistry.connect(admin).issueVintage(
+      projectId,
+      vintage,
+      await projectRegistry.getProjectIssuedCredits(projectId)
+    );
   })
 
   describe("Minting", function() {
@@ -67,13 +75,14 @@ describe("CarbonCreditToken", function() {
       const tx1 = await carbonToken.connect(tokenManager).mintCredits(
         projectOwner.address, 
         projectId, 
+        vintage, 
         firstMint, 
         "0x"
       );
 
-      await expect(tx1).to.emit(carbonToken, creditsMintedEvent).withArgs(projectOwner.address, projectId, firstMint);
+      await expect(tx1).to.emit(carbonToken, creditsMintedEvent).withArgs(projectOwner.address, tokenId, firstMint);
       
-      const balanceFirst = await carbonToken.balanceOf(projectOwner.address, projectId);
+      const balanceFirst = await carbonToken.balanceOf(projectOwner.address, tokenId);
       expect(balanceFirst).to.equal(firstMint);
 
       const secondMint = creditsIssued / BigInt(4);
@@ -81,13 +90,14 @@ describe("CarbonCreditToken", function() {
       const tx2 = await carbonToken.connect(tokenManager).mintCredits(
         projectOwner.address, 
         projectId, 
+        vintage, 
         secondMint, 
         "0x"
       );
 
-      await expect(tx2).to.emit(carbonToken, creditsMintedEvent).withArgs(projectOwner.address, projectId, secondMint);
+      await expect(tx2).to.emit(carbonToken, creditsMintedEvent).withArgs(projectOwner.address, tokenId, secondMint);
       
-      const balanceSecond = await carbonToken.balanceOf(projectOwner.address, projectId);
+      const balanceSecond = await carbonToken.balanceOf(projectOwner.address, tokenId);
       expect(balanceSecond).to.equal(firstMint+secondMint);
     });
 
@@ -98,6 +108,7 @@ describe("CarbonCreditToken", function() {
         carbonToken.connect(tokenManager).mintCredits(
           projectOwner.address, 
           nonExistentProjectId, 
+          vintage, 
           100, 
           "0x"
         )
@@ -110,6 +121,7 @@ describe("CarbonCreditToken", function() {
       await carbonToken.connect(tokenManager).mintCredits(
         projectOwner.address, 
         projectId, 
+        vintage, 
         creditsIssued - BigInt(2), 
         "0x"
       )
@@ -118,12 +130,25 @@ describe("CarbonCreditToken", function() {
         carbonToken.connect(tokenManager).mintCredits(
           projectOwner.address, 
           projectId, 
+          vintage, 
           3, 
           "0x"
         )
       ).to.be.revertedWithCustomError(carbonToken, exceededMintAountError);
     });
 
+    it("Should revert minting for suspended or revoked projects", async function () {
+      await projectRegistry.connect(admin).suspendProject(projectId, "Reversal reported");
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, vintage, 100, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, "ProjectNotAudited").withArgs(projectId);
+
+      await projectRegistry.connect(admin).revokeProject(projectId, "Project invalidated");
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, vintage, 100, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, "ProjectNotAudited").withArgs(projectId);
+    });
+
     it("Should revert minting by non-token-manager", async function () {
       const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
       
@@ -131,6 +156,7 @@ describe("CarbonCreditToken", function() {
         carbonToken.connect(otherAccount).mintCredits(
           projectOwner.address, 
           projectId, 
+          vintage, 
           creditsIssued, 
           "0x"
         )
@@ -138,6 +164,60 @@ describe("CarbonCreditToken", function() {
     });
   });
 
+  describe("Vintages", function() {
+    it("Should encode the project and vintage in the token ID", async function () {
+      const encoded = await carbonToken.getTokenId(7, 2023);
+      expect(encoded).to.equal((7n << 16n) | 2023n);
+      expect(await carbonToken.getProjectId(encoded)).to.equal(7);
+      expect(await carbonToken.getVintage(encoded)).to.equal(2023);
+    });
+
+    it("Should mint each vintage as its own token up to its issued cap", async function () {
+      // Re-deploy to split the project's credits over two vintages
+      await deployContracts();
+      await projectRegistry.connect(projectOwner).addProject(carbonRemoved, ipfsCID, uniqueVerificationId);
+      await projectRegistry.connect(admin).acceptProject(projectId);
+      await projectRegistry.connect(admin).issueVintage(projectId, 2023, 1000);
+      await projectRegistry.connect(admin).issueVintage(projectId, vintage, 500);
+
+      const oldTokenId = await carbonToken.getTokenId(projectId, 2023);
+      await carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, 2023, 1000, "0x");
+      await carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, vintage, 500, "0x");
+      expect(await carbonToken.balanceOf(projectOwner.address, oldTokenId)).to.equal(1000);
+      expect(await carbonToken.balanceOf(projectOwner.address, tokenId)).to.equal(500);
+
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, 2023, 1, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, exceededMintAountError).withArgs(oldTokenId, 0);
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, 2025, 1, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, exceededMintAountError);
+    });
+  });
+
+  describe("Monitoring Periods", function() {
+    it("Should mint new vintages up to the cumulative issued credits", async function () {
+      const nextVintage = vintage + 1;
+      const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+      await carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, vintage, creditsIssued, "0x");
+
+      // Nothing left to issue until a new period is verified
+      await expect(
+        projectRegistry.connect(admin).issueVintage(projectId, nextVintage, 1)
+      ).to.be.revertedWithCustomError(projectRegistry, "VintageExceedsIssuedCredits").withArgs(0);
+
+      await projectRegistry.connect(admin).recordMonitoringPeriod(projectId, 10000, "QmMonitoring2025", 0);
+      const periodCredits = 10000 * initMintPct / 100;
+      await projectRegistry.connect(admin).issueVintage(projectId, nextVintage, periodCredits);
+      await carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, nextVintage, periodCredits, "0x");
+
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, nextVintage, 1, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, exceededMintAountError);
+      expect(await carbonToken["totalSupply()"]()).to.equal(creditsIssued + BigInt(periodCredits));
+    });
+  });
+
   describe("Batch Minting", function() {
     it("Should successfully mint tokens for multiple projects", async function () {
       // Add another project
@@ -147,11 +227,11 @@ describe("CarbonCreditToken", function() {
         "0001/2024"
       );
       await projectRegistry.connect(admin).acceptProject(1);
+      const creditsProject0 = await projectRegistry.getProjectIssuedCredits(0);
+      const creditsProject1 = await projectRegistry.getProjectIssuedCredits(1);
+      await projectRegistry.connect(admin).issueVintage(1, vintage, creditsProject1);
 
-      const ids: [number,number] = [0,1];
-      
-      const creditsProject0 = await projectRegistry.getProjectIssuedCredits(ids[0]);
-      const creditsProject1 = await projectRegistry.getProjectIssuedCredits(ids[1]);
+      const ids = [tokenId, await carbonToken.getTokenId(1, vintage)];
       
       const amounts = [creditsProject0, creditsProject1]; 
       
@@ -196,6 +276,7 @@ describe("CarbonCreditToken", function() {
       await carbonToken.connect(tokenManager).mintCredits(
         projectOwner.address, 
         projectId, 
+        vintage, 
         creditsIssued, 
         "0x"
       );
@@ -203,15 +284,17 @@ describe("CarbonCreditToken", function() {
       // Retire some credits
       const retireAmount = creditsIssued / BigInt(2);
       const description = "Carbon offset retirement";
+      const beneficiary = "Example Corp";
 
       const tx = await carbonToken.connect(projectOwner).retireCredits(
-        projectId, 
+        tokenId, 
         retireAmount, 
+        beneficiary,
         description
       );
 
       // Check balance after retirement
-      const balance = await carbonToken.balanceOf(projectOwner.address, projectId);
+      const balance = await carbonToken.balanceOf(projectOwner.address, tokenId);
       expect(balance).to.equal(creditsIssued - retireAmount);
 
       // Check event emission
@@ -219,9 +302,10 @@ describe("CarbonCreditToken", function() {
         .to.emit(carbonToken, "CreditRetired")
         .withArgs(
           projectOwner.address, 
-          projectId, 
+          tokenId, 
           retireAmount, 
           await ethers.provider.getBlock('latest').then(block => block?.timestamp),
+          beneficiary,
           description
         );
     });
@@ -229,11 +313,145 @@ describe("CarbonCreditToken", function() {
     it("Should revert retiring credits with insufficient balance", async function () {
       await expect(
         carbonToken.connect(projectOwner).retireCredits(
-          projectId, 
+          tokenId, 
           100, 
+          "Test beneficiary",
           "Test retirement"
         )
       ).to.be.revertedWithCustomError(carbonToken, "InsufficientBalance");
     });
+
+    it("Should let retirement agents retire their credits on behalf of another account", async function () {
+      await carbonToken.connect(tokenManager).mintCredits(tokenManager.address, projectId, vintage, 100, "0x");
+
+      await expect(
+        carbonToken.connect(tokenManager).retireCreditsOnBehalf(otherAccount.address, tokenId, 40, "Example Corp", "Offset")
+      ).to.be.revertedWithCustomError(carbonToken, "AccessControlUnauthorizedAccount");
+
+      await carbonToken.connect(admin).grantRole(await carbonToken.RETIREMENT_AGENT_ROLE(), tokenManager.address);
+      const tx = await carbonToken.connect(tokenManager).retireCreditsOnBehalf(
+        otherAccount.address, 
+        tokenId, 
+        40, 
+        "Example Corp", 
+        "Offset"
+      );
+      await expect(tx).to.emit(carbonToken, "CreditRetired")
+        .withArgs(otherAccount.address, tokenId, 40, await time.latest(), "Example Corp", "Offset");
+
+      expect(await carbonToken.balanceOf(tokenManager.address, tokenId)).to.equal(60);
+    });
+  });
+
+  describe("Metadata", function() {
+    it("Should resolve the URI to the project's IPFS CID", async function () {
+      expect(await carbonToken.uri(tokenId)).to.equal(`ipfs://${ipfsCID}`);
+      await expect(
+        carbonToken.uri(await carbonToken.getTokenId(9999, vintage))
+      ).to.be.revertedWithCustomError(carbonToken, projectNotFoundError).withArgs(9999);
+    });
+
+    it("Should emit a URI event for every vintage when the CID changes", async function () {
+      const newIpfsCID = "Qm67890newCID";
+      await projectRegistry.connect(admin).setCarbonToken(carbonToken.getAddress());
+
+      await expect(
+        projectRegistry.connect(admin).updateProjectMetaData(projectId, newIpfsCID)
+      ).to.emit(carbonToken, "URI").withArgs(`ipfs://${newIpfsCID}`, tokenId);
+      expect(await carbonToken.uri(tokenId)).to.equal(`ipfs://${newIpfsCID}`);
+    });
+
+    it("Should only accept URI updates from the registry", async function () {
+      await expect(
+        carbonToken.connect(admin).updateProjectURI(projectId)
+      ).to.be.revertedWithCustomError(carbonToken, "NotProjectRegistry");
+    });
+  });
+
+  describe("Buffer Pool", function() {
+    const bufferProjectId = 1;
+    const bufferTokenId = (bufferProjectId << 16) | 0;
+
+    beforeEach(async function () {
+      await projectRegistry.connect(admin).setCarbonToken(carbonToken.getAddress());
+      await projectRegistry.connect(admin).setBufferPool(otherAccount.address);
+      await projectRegistry.connect(projectOwner).addProject(carbonRemoved, ipfsCID, "0001/2024");
+    });
+
+    it("Should mint the withheld credits into the buffer pool on acceptance", async function () {
+      const withheld = carbonRemoved - carbonRemoved * initMintPct / 100;
+      await expect(
+        projectRegistry.connect(admin).acceptProject(bufferProjectId)
+      ).to.emit(projectRegistry, "BufferCreditsContributed").withArgs(bufferProjectId, withheld);
+
+      expect(await carbonToken.balanceOf(otherAccount.address, bufferTokenId)).to.equal(withheld);
+      const buffer = await projectRegistry.projectBuffers(bufferProjectId);
+      expect(buffer.contributed).to.equal(withheld);
+      expect(buffer.cancelled).to.equal(0);
+
+      // Buffer credits can't be minted as a regular vintage
+      await expect(
+        carbonToken.connect(tokenManager).mintCredits(projectOwner.address, bufferProjectId, 0, 1, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, exceededMintAountError);
+    });
+
+    it("Should only contribute once when a project is audited again", async function () {
+      await projectRegistry.connect(admin).acceptProject(bufferProjectId);
+      await projectRegistry.connect(admin).updateProjectMetaData(bufferProjectId, "Qm67890newCID");
+      await expect(
+        projectRegistry.connect(admin).acceptProject(bufferProjectId)
+      ).not.to.emit(projectRegistry, "BufferCreditsContributed");
+    });
+
+    it("Should let the admin cancel buffer credits after a reversal", async function () {
+      await projectRegistry.connect(admin).acceptProject(bufferProjectId);
+      const withheld = (await projectRegistry.projectBuffers(bufferProjectId)).contributed;
+
+      await expect(
+        projectRegistry.connect(admin).cancelBufferCredits(bufferProjectId, otherAccount.address, 1000, "Wildfire reversal")
+      ).to.emit(projectRegistry, "BufferCreditsCancelled").withArgs(bufferProjectId, 1000, "Wildfire reversal");
+      expect(await carbonToken.balanceOf(otherAccount.address, bufferTokenId)).to.equal(withheld - 1000n);
+      expect((await projectRegistry.projectBuffers(bufferProjectId)).cancelled).to.equal(1000);
+
+      await expect(
+        projectRegistry.connect(admin).cancelBufferCredits(bufferProjectId, otherAccount.address, withheld, "Reversal")
+      ).to.be.revertedWithCustomError(projectRegistry, "InsufficientBufferCredits").withArgs(withheld - 1000n);
+      await expect(
+        projectRegistry.connect(projectOwner).cancelBufferCredits(bufferProjectId, otherAccount.address, 1, "Reversal")
+      ).to.be.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+      await expect(
+        carbonToken.connect(admin).burnBufferCredits(otherAccount.address, bufferProjectId, 1)
+      ).to.be.revertedWithCustomError(carbonToken, "NotProjectRegistry");
+    });
+
+    it("Should cancel buffer credits from the pool they were contributed to", async function () {
+      await projectRegistry.connect(admin).acceptProject(bufferProjectId);
+      const withheld = (await projectRegistry.projectBuffers(bufferProjectId)).contributed;
+      await projectRegistry.connect(admin).setBufferPool(tokenManager.address);
+
+      await expect(
+        projectRegistry.connect(admin).cancelBufferCredits(bufferProjectId, tokenManager.address, 1, "Reversal")
+      ).to.be.revertedWithCustomError(projectRegistry, "InsufficientBufferCredits").withArgs(0);
+      await projectRegistry.connect(admin).cancelBufferCredits(bufferProjectId, otherAccount.address, withheld, "Reversal");
+      expect(await carbonToken.balanceOf(otherAccount.address, bufferTokenId)).to.equal(0);
+      expect(await projectRegistry.projectBufferPoolCredits(bufferProjectId, otherAccount.address)).to.equal(0);
+    });
+  });
+
+  describe("Royalties", function() {
+    it("Should report the project owner royalty", async function () {
+      const salePrice = ethers.parseEther("1");
+      let [receiver, royaltyAmount] = await carbonToken.royaltyInfo(tokenId, salePrice);
+      expect(receiver).to.equal(projectOwner.address);
+      expect(royaltyAmount).to.equal(0);
+
+      await projectRegistry.connect(projectOwner).setProjectRoyalty(projectId, 300);
+      [receiver, royaltyAmount] = await carbonToken.royaltyInfo(tokenId, salePrice);
+      expect(royaltyAmount).to.equal(salePrice * 300n / 10000n);
+    });
+
+    it("Should support the ERC-2981 interface", async function () {
+      expect(await carbonToken.supportsInterface("0x2a55205a")).to.be.true;
+    });
   });
 });
\ No newline at end of file
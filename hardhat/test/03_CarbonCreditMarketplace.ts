@@ -1,9 +1,11 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { ethers, upgrades } from "hardhat";
 import { 
   CarbonCreditMarketplace, 
   CarbonCreditToken, 
-  CarbonProjectRegistry 
+  CarbonProjectRegistry,
+  MockERC20
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
@@ -18,27 +20,39 @@ describe("CarbonCreditMarketplace", function () {
   let seller: SignerWithAddress;
   let buyer: SignerWithAddress;
   let auditor: SignerWithAddress;
+  let secondBuyer: SignerWithAddress;
 
+  const buyOrderCreatedEvent = "BuyOrderCreated";
+  const buyOrderFilledEvent = "BuyOrderFilled";
+  const buyOrderClosedEvent = "BuyOrderClosed";
+  const expiredBuyOrderClosedEvent = "ExpiredBuyOrderClosed";
   const orderCreatedEvent = "OrderCreated";
   const orderClosedEvent = "OrderClosed";
   const expiredOrderClosedEvent = "ExpiredOrderClosed";
   const orderFilledEvent = "OrderFilled";
   const orderNotExpiredEvent = "OrderNotExpired";
+  const orderUpdatedEvent = "OrderUpdated";
   const togglePauseEvent = "MarketplacePauseStatusChanged";
   const updateFeeEvent = "PlatformFeeUpdated";
 
   const insufficientBalanceError = "InsufficientBalance";
   const inactiveOrderError = "InactiveOrder";
   const insufficientPaymentError = "InsufficientPayment";
+  const invalidAmountError = "InvalidAmount";
+  const invalidDurationError = "InvalidDuration";
   const invalidPriceError = "InvalidPrice";
   const notOrderOwnerError = "NotOrderOwner";
   const orderInactiveError = "InactiveOrder";
+  const paymentTokenNotAllowedError = "PaymentTokenNotAllowed";
+  const projectNotFoundError = "ProjectNotFound";
   const transferNotApprocedError = "TransferNotApproved";
 
 
   // Project and credit details
   const initMintPct = 90;
   const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
   const ipfsCID = "Qm12345exampleCID";
   const uniqueVerificationId = "0000/2024";
   const carbonRemoved = 500000;
@@ -47,27 +61,27 @@ describe("CarbonCreditMarketplace", function () {
 
   // Deployment helper function
   async function deployContracts() {
-    [owner, seller, buyer, auditor] = await ethers.getSigners();
+    [owner, seller, buyer, auditor, secondBuyer] = await ethers.getSigners();
 
     // Deploy Project Registry
     const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
-    projectRegistry = await ProjectRegistryFactory.deploy(initMintPct, owner.address, seller.address);
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, owner.address, seller.address]) as unknown as CarbonProjectRegistry;
 
     // Deploy Carbon Credit Token
     const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
-    carbonToken = await CarbonTokenFactory.deploy(
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [
       owner.address, 
       owner.address, 
       await projectRegistry.getAddress()
-    );
+    ]) as unknown as CarbonCreditToken;
 
     // Deploy Marketplace
     const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
-    marketplace = await MarketplaceFactory.deploy(
+    marketplace = await upgrades.deployProxy(MarketplaceFactory, [
       await carbonToken.getAddress(), 
       await projectRegistry.getAddress(), 
       owner.address
-    );
+    ]) as unknown as CarbonCreditMarketplace;
     // Add project as seller
     await projectRegistry.connect(seller).addProject(
       carbonRemoved,
@@ -81,9 +95,16 @@ describe("CarbonCreditMarketplace", function () {
     );
     await projectRegistry.connect(auditor).acceptProject(projectId);
     const toBeMinted = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(auditor).issueVintage(projectId, vintage, toBeMinted);
 
     // Mint tokens to seller
-    await carbonToken.connect(owner).mintCredits(seller.address, projectId, toBeMinted, "0x");
+    await carbonToken.connect(owner).mintCredits(seller.address, projectId, vintage, toBeMinted, "0x");
+
+    // Let the marketplace retire credits for buyers
+    await carbonToken.connect(owner).grantRole(
+      await carbonToken.RETIREMENT_AGENT_ROLE(), 
+      await marketplace.getAddress()
+    );
   }
 
   beforeEach(async function () {
@@ -139,28 +160,29 @@ describe("CarbonCreditMarketplace", function () {
       const creditAmount = 300;
       const pricePerCredit = ethers.parseEther("0.1"); // 0.1 ETH per credit
 
-      const sellerInitBalance = await carbonToken.balanceOf(seller.address, projectId);
-      const contractInitBalance = await carbonToken.balanceOf(marketplace.getAddress(), projectId);
+      const sellerInitBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      const contractInitBalance = await carbonToken.balanceOf(marketplace.getAddress(), tokenId);
 
       // Create sell order
       const tx = await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         creditAmount, 
-        pricePerCredit // Order price on nagu nimetus kogu orderi pricele mitte uniti price
+        pricePerCredit, // Order price on nagu nimetus kogu orderi pricele mitte uniti price
+        SEVEN_DAYS
       );
       const firstOrderId = 0;
-      await expect(tx).to.emit(marketplace, orderCreatedEvent).withArgs(firstOrderId, seller.address, projectId, creditAmount, BigInt(creditAmount)*pricePerCredit)
+      await expect(tx).to.emit(marketplace, orderCreatedEvent).withArgs(firstOrderId, seller.address, tokenId, creditAmount, BigInt(creditAmount)*pricePerCredit)
 
       // Verify order details
       const order = await marketplace.tradeOrders(firstOrderId);
       const timestamp = await ethers.provider.getBlock('latest').then(block => block!.timestamp);
       expect(order.seller).to.equal(seller.address);
-      expect(order.projectId).to.equal(projectId);
+      expect(order.tokenId).to.equal(tokenId);
       expect(order.creditsAmount).to.equal(300);
       expect(order.expirationTimestamp).to.equal(timestamp + SEVEN_DAYS); 
       expect(order.isActive).to.be.true;
-      const sellerEndBalance = await carbonToken.balanceOf(seller.address, projectId);
-      const contractEndBalance = await carbonToken.balanceOf(marketplace.getAddress(), projectId);
+      const sellerEndBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      const contractEndBalance = await carbonToken.balanceOf(marketplace.getAddress(), tokenId);
       expect(sellerEndBalance).to.equal(sellerInitBalance-BigInt(creditAmount));
       expect(contractEndBalance).to.equal(contractInitBalance+BigInt(creditAmount));
     });
@@ -171,7 +193,8 @@ describe("CarbonCreditMarketplace", function () {
         marketplace.connect(seller).createSellOrder(
           999, // Non-existent project ID, users balance should be 0
           sellAmount, 
-          ethers.parseEther("0.1")
+          ethers.parseEther("0.1"), 
+          SEVEN_DAYS
         )
       ).to.be.revertedWithCustomError(marketplace, insufficientBalanceError).withArgs(sellAmount);
     });
@@ -179,9 +202,10 @@ describe("CarbonCreditMarketplace", function () {
     it("Should prevent creating a sell order with insufficient token balance", async function () {
       await expect(
         marketplace.connect(seller).createSellOrder(
-          projectId, 
+          tokenId, 
           carbonRemoved + 1, // More than seller's balance
-          ethers.parseEther("0.1")
+          ethers.parseEther("0.1"),
+          SEVEN_DAYS
         )
       ).to.be.revertedWithCustomError(marketplace, insufficientBalanceError).withArgs(carbonRemoved+1);
     });
@@ -189,9 +213,10 @@ describe("CarbonCreditMarketplace", function () {
     it("Should not create a sell order for user who does not allow contract to spend credits", async function () {
       await expect(
         marketplace.connect(buyer).createSellOrder(
-          projectId, 
+          tokenId, 
           carbonRemoved,
-          ethers.parseEther("0.1")
+          ethers.parseEther("0.1"),
+          SEVEN_DAYS
         )
       ).to.be.revertedWithCustomError(marketplace, transferNotApprocedError);
     });
@@ -199,22 +224,30 @@ describe("CarbonCreditMarketplace", function () {
     it("Should prevent creating a free sell order", async function () {
       await expect(
         marketplace.connect(seller).createSellOrder(
-          projectId, 
+          tokenId, 
           carbonRemoved,
-          0
+          0,
+          SEVEN_DAYS
         )
       ).to.be.revertedWithCustomError(marketplace, invalidPriceError).withArgs(0);
     });
 
+    it("Should prevent creating a sell order whose total price overflows", async function () {
+      await expect(
+        marketplace.connect(seller).createSellOrder(tokenId, 2, ethers.MaxUint256, SEVEN_DAYS)
+      ).to.be.revertedWithPanic(0x11);
+    });
+
     it("Should prevent creting a sell order when market is paused", async function () {
       // Pause market
       await marketplace.connect(owner).toggleMarketplacePause();
       // Try to post a sell order
       await expect(
         marketplace.connect(seller).createSellOrder(
-          projectId, 
+          tokenId, 
           carbonRemoved, 
-          ethers.parseEther("0.1")
+          ethers.parseEther("0.1"), 
+          SEVEN_DAYS
         )).to.be.revertedWith("Trading is paused");
     });
   });
@@ -227,25 +260,26 @@ describe("CarbonCreditMarketplace", function () {
     beforeEach(async function () {
       // Create sell order
       await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         sellAmount, 
-        sellPricePerCredit
+        sellPricePerCredit, 
+        SEVEN_DAYS
       );
     });
 
     it("Should allow order owner to remove their order", async function () {
-      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, projectId);
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
       const firstOrderId = 0;
       await expect(
         marketplace.connect(seller).removeSellOrder(firstOrderId)
       ).to.emit(marketplace, orderClosedEvent)
-        .withArgs(firstOrderId, seller.address, projectId, sellAmount, totalSellPrice);
+        .withArgs(firstOrderId, seller.address, tokenId, sellAmount, totalSellPrice);
 
       // Verify order is inactive
       const order = await marketplace.tradeOrders(firstOrderId);
       expect(order.isActive).to.be.false;
       expect(order.expirationTimestamp).to.equal(0);
-      const sellerEndBalance = await carbonToken.balanceOf(seller.address, projectId);
+      const sellerEndBalance = await carbonToken.balanceOf(seller.address, tokenId);
       expect(sellerEndBalance).to.equal(sellerInitialBalance + order.creditsAmount);
     });
 
@@ -275,19 +309,20 @@ describe("CarbonCreditMarketplace", function () {
     beforeEach(async function () {
       // Create sell order
       await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         orderAmount, 
-        pricePerCredit
+        pricePerCredit, 
+        SEVEN_DAYS
       );
       await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         orderAmount+100, 
-        pricePerCredit
+        pricePerCredit, 
+        SEVEN_DAYS
       );
-      await owner.sendTransaction({
-        to: marketplace.getAddress(),
+      await marketplace.connect(owner).fundKeeperRewards(ethers.ZeroAddress, 0, {
         value: ethers.parseEther("0.1")
-      })
+      });
     });
     
     it("Should expire an order after 7 days and emit OrderExpired event", async function () { 
@@ -303,7 +338,7 @@ describe("CarbonCreditMarketplace", function () {
         .withArgs(
           orderId, 
           seller.address, 
-          projectId, 
+          tokenId, 
           orderAmount, 
           orderPrice
         );
@@ -331,7 +366,8 @@ describe("CarbonCreditMarketplace", function () {
       await time.increase(7 * 24 * 60 * 60 + 1);
       
       const initialCallerBalance = await marketplace.accountBalances(buyer.address);
-      const initialContractBalance = await marketplace.accountBalances(marketplace.getAddress());
+      const initialReserve = await marketplace.keeperRewardReserves(ethers.ZeroAddress);
+      const initialFees = await marketplace.accountBalances(marketplace.getAddress());
       
       const closeExpiredOrderReward = await marketplace.closeExpiredOrderReward();
       // Close expired order
@@ -340,10 +376,12 @@ describe("CarbonCreditMarketplace", function () {
       // Check reward was paid
       const expectedReward = orderPrice * closeExpiredOrderReward / BigInt(10000);
       const finalCallerBalance = await marketplace.accountBalances(buyer.address);
-      const finalContractBalance = await marketplace.accountBalances(marketplace.getAddress());
       
       expect(finalCallerBalance).to.equal(initialCallerBalance + expectedReward);
-      expect(finalContractBalance).to.equal(initialContractBalance - expectedReward);
+      // Rewards come out of the keeper reserve, not out of the fee revenue
+      expect(await marketplace.keeperRewardReserves(ethers.ZeroAddress)).to.equal(initialReserve - expectedReward);
+      expect(await marketplace.keeperRewardsPaid(ethers.ZeroAddress)).to.equal(expectedReward);
+      expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(initialFees);
     });
 
     it("Should batch close multiple expired orders", async function () {
@@ -351,9 +389,10 @@ describe("CarbonCreditMarketplace", function () {
       const orderIds: number[] = [];
       for (let i:number = 0; i < 3; i++) {
         await marketplace.connect(seller).createSellOrder(
-          projectId, 
+          tokenId, 
           100, 
-          ethers.parseEther("0.1")
+          ethers.parseEther("0.1"), 
+          SEVEN_DAYS
         );
         orderIds.push(i);
       }
@@ -374,6 +413,183 @@ describe("CarbonCreditMarketplace", function () {
     });
   });
 
+  describe("Order Duration and Updates", function () {
+    const orderId = 0;
+    const orderAmount = 100n;
+    const pricePerCredit = ethers.parseEther("0.01");
+    const ONE_DAY = 24*60*60;
+
+    beforeEach(async function () {
+      await marketplace.connect(seller).createSellOrder(
+        tokenId, 
+        orderAmount, 
+        pricePerCredit, 
+        2 * ONE_DAY
+      );
+    });
+
+    it("Should create orders with the chosen duration", async function () {
+      const order = await marketplace.tradeOrders(orderId);
+      expect(order.expirationTimestamp).to.equal(await time.latest() + 2 * ONE_DAY);
+    });
+
+    it("Should reject durations outside the bounds", async function () {
+      const minDuration = await marketplace.minOrderDuration();
+      const maxDuration = await marketplace.maxOrderDuration();
+      await expect(
+        marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, minDuration - 1n)
+      ).to.be.revertedWithCustomError(marketplace, invalidDurationError).withArgs(minDuration - 1n);
+      await expect(
+        marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, maxDuration + 1n)
+      ).to.be.revertedWithCustomError(marketplace, invalidDurationError).withArgs(maxDuration + 1n);
+    });
+
+    it("Should allow contract owner to update the duration bounds", async function () {
+      await expect(
+        marketplace.connect(owner).updateOrderDurationBounds(ONE_DAY / 2, 90 * ONE_DAY)
+      ).to.emit(marketplace, "OrderDurationBoundsUpdated").withArgs(ONE_DAY / 2, 90 * ONE_DAY);
+      expect(await marketplace.minOrderDuration()).to.equal(ONE_DAY / 2);
+      expect(await marketplace.maxOrderDuration()).to.equal(90 * ONE_DAY);
+
+      await expect(
+        marketplace.connect(owner).updateOrderDurationBounds(2 * ONE_DAY, ONE_DAY)
+      ).to.be.revertedWith("Invalid duration bounds");
+      await expect(
+        marketplace.connect(owner).updateOrderDurationBounds(0, ONE_DAY)
+      ).to.be.revertedWith("Duration is too small");
+      await expect(
+        marketplace.connect(buyer).updateOrderDurationBounds(ONE_DAY, 2 * ONE_DAY)
+      ).to.be.revertedWithCustomError(marketplace, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should allow seller to extend an active order", async function () {
+      const order = await marketplace.tradeOrders(orderId);
+      const newExpiration = order.expirationTimestamp + BigInt(5 * ONE_DAY);
+
+      await expect(
+        marketplace.connect(seller).extendSellOrder(orderId, 5 * ONE_DAY)
+      ).to.emit(marketplace, orderUpdatedEvent).withArgs(orderId, orderAmount, order.orderPrice, newExpiration);
+      expect((await marketplace.tradeOrders(orderId)).expirationTimestamp).to.equal(newExpiration);
+
+      // Credits stay in escrow
+      expect(await carbonToken.balanceOf(marketplace.getAddress(), tokenId)).to.equal(orderAmount);
+    });
+
+    it("Should prevent extending an order beyond the maximum duration", async function () {
+      const maxDuration = await marketplace.maxOrderDuration();
+      await expect(
+        marketplace.connect(seller).extendSellOrder(orderId, maxDuration)
+      ).to.be.revertedWithCustomError(marketplace, invalidDurationError).withArgs(maxDuration);
+    });
+
+    it("Should prevent updating expired, inactive or foreign orders", async function () {
+      await expect(
+        marketplace.connect(buyer).extendSellOrder(orderId, ONE_DAY)
+      ).to.be.revertedWithCustomError(marketplace, notOrderOwnerError);
+      await expect(
+        marketplace.connect(buyer).updateSellOrderPrice(orderId, 1)
+      ).to.be.revertedWithCustomError(marketplace, notOrderOwnerError);
+
+      await time.increase(2 * ONE_DAY + 1);
+      await expect(
+        marketplace.connect(seller).extendSellOrder(orderId, ONE_DAY)
+      ).to.be.revertedWithCustomError(marketplace, "ExpiredOrder").withArgs(orderId);
+
+      await marketplace.connect(seller).removeSellOrder(orderId);
+      await expect(
+        marketplace.connect(seller).updateSellOrderPrice(orderId, 1)
+      ).to.be.revertedWithCustomError(marketplace, inactiveOrderError);
+    });
+
+    it("Should allow seller to re-price an active order", async function () {
+      const newPricePerCredit = ethers.parseEther("0.02");
+      const order = await marketplace.tradeOrders(orderId);
+
+      await expect(
+        marketplace.connect(seller).updateSellOrderPrice(orderId, newPricePerCredit)
+      ).to.emit(marketplace, orderUpdatedEvent)
+        .withArgs(orderId, orderAmount, orderAmount * newPricePerCredit, order.expirationTimestamp);
+
+      await expect(
+        marketplace.connect(seller).updateSellOrderPrice(orderId, 0)
+      ).to.be.revertedWithCustomError(marketplace, invalidPriceError).withArgs(0);
+
+      // Buyers pay the new price
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, 10, { value: 10n * pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, insufficientPaymentError);
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, 10, { value: 10n * newPricePerCredit })
+      ).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, orderId, 10, 10n * newPricePerCredit);
+    });
+  });
+
+  describe("Project Invalidation", function () {
+    const orderAmount = 100n;
+    const pricePerCredit = ethers.parseEther("0.001");
+    const orderId = 0;
+
+    beforeEach(async function () {
+      await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    });
+
+    it("Should block new listings of suspended projects", async function () {
+      await projectRegistry.connect(auditor).suspendProject(projectId, "Under investigation");
+      await expect(
+        marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS)
+      ).to.be.revertedWithCustomError(marketplace, "ProjectNotAudited").withArgs(projectId);
+
+      await projectRegistry.connect(auditor).reinstateProject(projectId, "Investigation closed");
+      await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    });
+
+    it("Should block trading credits of suspended projects", async function () {
+      await marketplace.connect(buyer).createBuyOrder(tokenId, orderAmount, pricePerCredit, { value: orderAmount * pricePerCredit });
+      await projectRegistry.connect(auditor).suspendProject(projectId, "Under investigation");
+
+      await expect(
+        marketplace.connect(buyer).executeTrade(orderId, { value: orderAmount * pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "ProjectNotAudited").withArgs(projectId);
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(tokenId, orderAmount, pricePerCredit, { value: orderAmount * pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "ProjectNotAudited").withArgs(projectId);
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(0, orderAmount)
+      ).to.be.revertedWithCustomError(marketplace, "ProjectNotAudited").withArgs(projectId);
+
+      // Open orders can still be withdrawn
+      await expect(
+        marketplace.connect(buyer).removeBuyOrder(0)
+      ).to.changeEtherBalance(buyer, orderAmount * pricePerCredit);
+    });
+
+    it("Should not trade buffer credits", async function () {
+      const bufferTokenId = projectId << 16;
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(bufferTokenId, orderAmount, pricePerCredit, { value: orderAmount * pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "BufferCreditsNotTradable").withArgs(bufferTokenId);
+    });
+
+    it("Should let anyone close the open orders of a revoked project", async function () {
+      await expect(
+        marketplace.connect(buyer).closeInvalidatedOrder(orderId)
+      ).to.be.revertedWithCustomError(marketplace, "ProjectStillAudited").withArgs(projectId);
+
+      await projectRegistry.connect(auditor).revokeProject(projectId, "Invalidated by the standard body");
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      await expect(
+        marketplace.connect(buyer).closeInvalidatedOrder(orderId)
+      ).to.emit(marketplace, "InvalidatedOrderClosed")
+        .withArgs(orderId, seller.address, tokenId, orderAmount, orderAmount * pricePerCredit);
+
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance + orderAmount);
+      expect((await marketplace.tradeOrders(orderId)).isActive).to.be.false;
+      await expect(
+        marketplace.connect(buyer).closeInvalidatedOrder(orderId)
+      ).to.be.revertedWithCustomError(marketplace, "InactiveOrder");
+    });
+  });
+
   describe("Trade Execution", function () {
     const orderId = 0;
     const orderAmount = 250;
@@ -386,9 +602,10 @@ describe("CarbonCreditMarketplace", function () {
 
       // Create sell order
       await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         orderAmount, 
-        pricePerCredit
+        pricePerCredit, 
+        SEVEN_DAYS
       );
     });
 
@@ -398,10 +615,10 @@ describe("CarbonCreditMarketplace", function () {
       // Check event emission
       await expect(
         marketplace.connect(buyer).executeTrade(orderId, {value: orderTotalPrice})
-      ).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, projectId, orderAmount, orderTotalPrice);
+      ).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, orderId, orderAmount, orderTotalPrice);
 
       // Verify token transfer
-      const buyerBalance = await carbonToken.balanceOf(buyer.address, projectId);
+      const buyerBalance = await carbonToken.balanceOf(buyer.address, tokenId);
       expect(buyerBalance).to.equal(orderAmount);
 
       // Verify seller received payment
@@ -428,13 +645,746 @@ describe("CarbonCreditMarketplace", function () {
     });
 
   });
+  describe("Buy and Retire", function () {
+    const orderId = 0;
+    const orderAmount = 200n;
+    const pricePerCredit = ethers.parseEther("0.01");
+    const beneficiary = "Example Corp";
+    const description = "2024 scope 1 emissions";
+
+    beforeEach(async function () {
+      await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    });
+
+    it("Should buy and retire credits in one transaction", async function () {
+      const retireAmount = 150n;
+      const supplyBefore = await carbonToken["totalSupply(uint256)"](tokenId);
+
+      const tx = await marketplace.connect(buyer).executeTradeAndRetire(
+        orderId, 
+        retireAmount, 
+        beneficiary, 
+        description, 
+        { value: retireAmount * pricePerCredit }
+      );
+      await expect(tx).to.emit(marketplace, orderFilledEvent)
+        .withArgs(buyer.address, seller.address, orderId, retireAmount, retireAmount * pricePerCredit);
+      await expect(tx).to.emit(carbonToken, "CreditRetired")
+        .withArgs(buyer.address, tokenId, retireAmount, await time.latest(), beneficiary, description);
+
+      // Credits never reach the buyer and are burned
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(0);
+      expect(await carbonToken.balanceOf(marketplace.getAddress(), tokenId)).to.equal(orderAmount - retireAmount);
+      expect(await carbonToken["totalSupply(uint256)"](tokenId)).to.equal(supplyBefore - retireAmount);
+      expect((await marketplace.tradeOrders(orderId)).creditsAmount).to.equal(orderAmount - retireAmount);
+    });
+
+    it("Should not retire credits when the purchase fails", async function () {
+      await expect(
+        marketplace.connect(buyer).executeTradeAndRetire(orderId, orderAmount, beneficiary, description, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, insufficientPaymentError);
+    });
+  });
+
+  describe("Royalties", function () {
+    const orderId = 0;
+    const orderAmount = 100n;
+    const pricePerCredit = ethers.parseEther("0.1");
+    const orderTotalPrice = orderAmount * pricePerCredit;
+    const royaltyBasisPoints = 500n;
+
+    beforeEach(async function () {
+      await projectRegistry.connect(seller).setProjectRoyalty(projectId, royaltyBasisPoints);
+      // Resell credits bought from the project owner
+      await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+      await marketplace.connect(buyer).executeTrade(orderId, { value: orderTotalPrice });
+      await carbonToken.connect(buyer).setApprovalForAll(await marketplace.getAddress(), true);
+      await marketplace.connect(buyer).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    });
+
+    it("Should pay the project owner royalty on secondary sales", async function () {
+      const resaleOrderId = 1;
+      const projectOwnerBalance = await marketplace.accountBalances(seller.address);
+      const contractBalance = await marketplace.accountBalances(marketplace.getAddress());
+      const platformFee = orderTotalPrice * await marketplace.platformFeeBasisPoints() / 10000n;
+      const royalty = orderTotalPrice * royaltyBasisPoints / 10000n;
+      const sellerProceeds = orderTotalPrice - platformFee - royalty;
+
+      await expect(
+        marketplace.connect(secondBuyer).executeTrade(resaleOrderId, { value: orderTotalPrice })
+      ).to.emit(marketplace, "TradeProceedsSplit")
+        .withArgs(tokenId, buyer.address, seller.address, resaleOrderId, secondBuyer.address, orderTotalPrice, platformFee, royalty, sellerProceeds);
+
+      expect(await marketplace.accountBalances(buyer.address)).to.equal(sellerProceeds);
+      expect(await marketplace.accountBalances(seller.address)).to.equal(projectOwnerBalance + royalty);
+      expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(contractBalance + platformFee);
+    });
+  });
+
+  describe("Partial Fills", function () {
+    const orderId = 0;
+    const orderAmount = 1000n;
+    const pricePerCredit = ethers.parseEther("0.01");
+    const orderTotalPrice = orderAmount * pricePerCredit;
+
+    beforeEach(async function () {
+      await marketplace.connect(seller).createSellOrder(
+        tokenId, 
+        orderAmount, 
+        pricePerCredit, 
+        SEVEN_DAYS
+      );
+    });
+
+    it("Should fill part of an order and keep it active", async function () {
+      const fillAmount = 50n;
+      const fillPrice = fillAmount * pricePerCredit;
+
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, fillAmount, { value: fillPrice })
+      ).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, orderId, fillAmount, fillPrice);
+
+      const order = await marketplace.tradeOrders(orderId);
+      expect(order.isActive).to.be.true;
+      expect(order.creditsAmount).to.equal(orderAmount - fillAmount);
+      expect(order.orderPrice).to.equal(orderTotalPrice - fillPrice);
+      expect(order.expirationTimestamp).to.be.greaterThan(0);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(fillAmount);
+    });
+
+    it("Should let multiple buyers fill an order until it is empty", async function () {
+      const firstFill = 300n;
+      const secondFill = 450n;
+      const lastFill = orderAmount - firstFill - secondFill;
+
+      await marketplace.connect(buyer).executePartialTrade(orderId, firstFill, { value: firstFill * pricePerCredit });
+      await marketplace.connect(secondBuyer).executePartialTrade(orderId, secondFill, { value: secondFill * pricePerCredit });
+      // Buying the remainder through executeTrade closes the order
+      await expect(
+        marketplace.connect(buyer).executeTrade(orderId, { value: lastFill * pricePerCredit })
+      ).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, orderId, lastFill, lastFill * pricePerCredit);
+
+      const order = await marketplace.tradeOrders(orderId);
+      expect(order.isActive).to.be.false;
+      expect(order.creditsAmount).to.equal(0);
+      expect(order.orderPrice).to.equal(0);
+      expect(order.expirationTimestamp).to.equal(0);
+
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(firstFill + lastFill);
+      expect(await carbonToken.balanceOf(secondBuyer.address, tokenId)).to.equal(secondFill);
+      expect(await carbonToken.balanceOf(marketplace.getAddress(), tokenId)).to.equal(0);
+
+      // Fee and seller proceeds add up to the full order price
+      const sellerBalance = await marketplace.accountBalances(seller.address);
+      const contractBalance = await marketplace.accountBalances(marketplace.getAddress());
+      expect(sellerBalance + contractBalance).to.equal(orderTotalPrice);
+
+      await expect(
+        marketplace.connect(secondBuyer).executePartialTrade(orderId, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, inactiveOrderError);
+    });
+
+    it("Should refund overpayment on a partial fill", async function () {
+      const fillAmount = 10n;
+      const fillPrice = fillAmount * pricePerCredit;
+
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, fillAmount, { value: fillPrice * 2n })
+      ).to.changeEtherBalance(buyer, -fillPrice);
+    });
+
+    it("Should prevent filling more credits than available", async function () {
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, orderAmount + 1n, { value: orderTotalPrice * 2n })
+      ).to.be.revertedWithCustomError(marketplace, invalidAmountError).withArgs(orderAmount + 1n);
+
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, 0, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, invalidAmountError).withArgs(0);
+    });
+
+    it("Should prevent underpaying a partial fill", async function () {
+      await expect(
+        marketplace.connect(buyer).executePartialTrade(orderId, 10, { value: 10n * pricePerCredit - 1n })
+      ).to.be.revertedWithCustomError(marketplace, insufficientPaymentError);
+    });
+
+    it("Should return unsold credits when a partially filled order is removed", async function () {
+      const fillAmount = 400n;
+      await marketplace.connect(buyer).executePartialTrade(orderId, fillAmount, { value: fillAmount * pricePerCredit });
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+
+      await expect(
+        marketplace.connect(seller).removeSellOrder(orderId)
+      ).to.emit(marketplace, orderClosedEvent)
+        .withArgs(orderId, seller.address, tokenId, orderAmount - fillAmount, (orderAmount - fillAmount) * pricePerCredit);
+
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance + orderAmount - fillAmount);
+    });
+  });
+
+  describe("Batch Purchases", function () {
+    const prices = [ethers.parseEther("0.03"), ethers.parseEther("0.01"), ethers.parseEther("0.02")];
+    const orderAmount = 100n;
+    // Order IDs cheapest first
+    const candidates = [1, 2, 0];
+
+    beforeEach(async function () {
+      for (const price of prices) {
+        await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, price, SEVEN_DAYS);
+      }
+    });
+
+    it("Should fill a list of orders with one payment", async function () {
+      const amounts = [100n, 40n];
+      const totalPrice = amounts[0] * prices[0] + amounts[1] * prices[2];
+
+      const tx = marketplace.connect(buyer).executeTradeBatch([0, 2], amounts, totalPrice, { value: totalPrice + ethers.parseEther("1") });
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 0, amounts[0], amounts[0] * prices[0]);
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 2, amounts[1], amounts[1] * prices[2]);
+      // Only the total price is kept, the rest is refunded
+      await expect(tx).to.changeEtherBalance(buyer, -totalPrice);
+
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(amounts[0] + amounts[1]);
+      expect((await marketplace.tradeOrders(0)).isActive).to.be.false;
+      expect((await marketplace.tradeOrders(2)).creditsAmount).to.equal(orderAmount - amounts[1]);
+    });
+
+    it("Should revert the whole batch when one fill fails", async function () {
+      await marketplace.connect(seller).removeSellOrder(1);
+      await expect(
+        marketplace.connect(buyer).executeTradeBatch([0, 1], [10, 10], ethers.parseEther("10"), { value: ethers.parseEther("10") })
+      ).to.be.revertedWithCustomError(marketplace, inactiveOrderError);
+      expect((await marketplace.tradeOrders(0)).creditsAmount).to.equal(orderAmount);
+
+      await expect(
+        marketplace.connect(buyer).executeTradeBatch([0, 2], [10], ethers.parseEther("10"), { value: ethers.parseEther("10") })
+      ).to.be.revertedWithCustomError(marketplace, "MismatchingArrayLengths");
+    });
+
+    it("Should sweep the candidate orders of a project", async function () {
+      const creditsAmount = 150n;
+      // 100 credits from order 1 and 50 from order 2
+      const totalPrice = orderAmount * prices[1] + 50n * prices[2];
+
+      const tx = marketplace.connect(buyer).sweepTokenOrders(tokenId, candidates, creditsAmount, totalPrice, { value: ethers.parseEther("100") });
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 1, orderAmount, orderAmount * prices[1]);
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 2, 50, 50n * prices[2]);
+      await expect(tx).to.changeEtherBalance(buyer, -totalPrice);
+
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(creditsAmount);
+      expect((await marketplace.tradeOrders(0)).creditsAmount).to.equal(orderAmount);
+    });
+
+    it("Should skip candidates that can no longer be filled", async function () {
+      await marketplace.connect(seller).removeSellOrder(1);
+      const totalPrice = orderAmount * prices[2] + 50n * prices[0];
+
+      const tx = marketplace.connect(buyer).sweepTokenOrders(tokenId, candidates, 150, totalPrice, { value: totalPrice });
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 2, orderAmount, orderAmount * prices[2]);
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, 0, 50, 50n * prices[0]);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(150);
+    });
+
+    it("Should fail a sweep when the slippage limit is exceeded", async function () {
+      const totalPrice = orderAmount * prices[1] + 50n * prices[2];
+      await expect(
+        marketplace.connect(buyer).sweepTokenOrders(tokenId, candidates, 150, totalPrice - 1n, { value: totalPrice })
+      ).to.be.revertedWithCustomError(marketplace, "SlippageExceeded").withArgs(totalPrice, totalPrice - 1n);
+    });
+
+    it("Should fail a sweep when there are not enough credits listed", async function () {
+      await expect(
+        marketplace.connect(buyer).sweepTokenOrders(tokenId, candidates, 3n * orderAmount + 1n, ethers.parseEther("100"), { value: ethers.parseEther("100") })
+      ).to.be.revertedWithCustomError(marketplace, "InsufficientLiquidity").withArgs(1);
+    });
+
+    it("Should require enough payment for the whole batch", async function () {
+      const totalPrice = orderAmount * prices[1];
+      await expect(
+        marketplace.connect(buyer).sweepTokenOrders(tokenId, candidates, orderAmount, totalPrice, { value: totalPrice - 1n })
+      ).to.be.revertedWithCustomError(marketplace, insufficientPaymentError);
+    });
+  });
+
+  describe("Order Book Views", function () {
+    const prices = [ethers.parseEther("0.03"), ethers.parseEther("0.01"), ethers.parseEther("0.02")];
+    const orderAmount = 100n;
+
+    beforeEach(async function () {
+      for (const price of prices) {
+        await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, price, SEVEN_DAYS);
+      }
+    });
+
+    it("Should list active orders with pagination", async function () {
+      let [total, orderIds, orders] = await marketplace.getActiveOrders(0, 2);
+      expect(total).to.equal(3);
+      expect(orderIds).to.deep.equal([0n, 1n]);
+      expect(orders[1].orderPrice).to.equal(orderAmount * prices[1]);
+
+      [total, orderIds] = await marketplace.getActiveOrders(2, 2);
+      expect(orderIds).to.deep.equal([2n]);
+
+      [total, orderIds] = await marketplace.getActiveOrders(5, 2);
+      expect(total).to.equal(3);
+      expect(orderIds).to.deep.equal([]);
+    });
+
+    it("Should list orders by project and seller", async function () {
+      let [total, orderIds] = await marketplace.getTokenOrders(tokenId, 0, 10);
+      expect(total).to.equal(3);
+      expect(orderIds).to.deep.equal([0n, 1n, 2n]);
+
+      [total] = await marketplace.getTokenOrders(999, 0, 10);
+      expect(total).to.equal(0);
+
+      [total, orderIds] = await marketplace.getSellerOrders(seller.address, 0, 10);
+      expect(total).to.equal(3);
+      [total] = await marketplace.getSellerOrders(buyer.address, 0, 10);
+      expect(total).to.equal(0);
+    });
+
+    it("Should remove filled and closed orders from the views", async function () {
+      await marketplace.connect(buyer).executePartialTrade(0, 10, { value: 10n * prices[0] });
+      // Partially filled orders stay listed
+      expect((await marketplace.getActiveOrders(0, 10))[0]).to.equal(3);
+
+      await marketplace.connect(buyer).executeTrade(1, { value: orderAmount * prices[1] });
+      await marketplace.connect(seller).removeSellOrder(2);
+
+      let [total, orderIds] = await marketplace.getActiveOrders(0, 10);
+      expect(total).to.equal(1);
+      expect(orderIds).to.deep.equal([0n]);
+      expect((await marketplace.getTokenOrders(tokenId, 0, 10))[1]).to.deep.equal([0n]);
+      expect((await marketplace.getSellerOrders(seller.address, 0, 10))[1]).to.deep.equal([0n]);
+
+      // Closing expired orders also updates the views
+      await marketplace.connect(owner).fundKeeperRewards(ethers.ZeroAddress, 0, { value: ethers.parseEther("1") });
+      await time.increase(SEVEN_DAYS + 1);
+      await marketplace.closeExpiredOrder(0);
+      [total] = await marketplace.getActiveOrders(0, 10);
+      expect(total).to.equal(0);
+    });
+
+    it("Should find the best price of a project", async function () {
+      let [bestOrderId, bestPrice] = await marketplace.getBestPrice(tokenId, ethers.ZeroAddress);
+      expect(bestOrderId).to.equal(1);
+      expect(bestPrice).to.equal(prices[1]);
+
+      await marketplace.connect(buyer).executeTrade(1, { value: orderAmount * prices[1] });
+      [bestOrderId, bestPrice] = await marketplace.getBestPrice(tokenId, ethers.ZeroAddress);
+      expect(bestOrderId).to.equal(2);
+      expect(bestPrice).to.equal(prices[2]);
+
+      // Expired orders are ignored
+      await time.increase(SEVEN_DAYS + 1);
+      await expect(
+        marketplace.getBestPrice(tokenId, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, "NoActiveOrders").withArgs(tokenId);
+    });
+  });
+
+  describe("Buy Orders", function () {
+    const buyOrderId = 0;
+    const bidAmount = 500n;
+    const bidPricePerCredit = ethers.parseEther("0.01");
+    const bidTotalPrice = bidAmount * bidPricePerCredit;
+
+    beforeEach(async function () {
+      await marketplace.connect(buyer).createBuyOrder(
+        tokenId, 
+        bidAmount, 
+        bidPricePerCredit, 
+        { value: bidTotalPrice }
+      );
+    });
+
+    it("Should create a buy order and escrow the payment", async function () {
+      const secondBuyOrderId = 1;
+      const tx = marketplace.connect(secondBuyer).createBuyOrder(
+        tokenId, 
+        bidAmount, 
+        bidPricePerCredit, 
+        { value: bidTotalPrice * 2n }
+      );
+      await expect(tx).to.emit(marketplace, buyOrderCreatedEvent)
+        .withArgs(secondBuyOrderId, secondBuyer.address, tokenId, bidAmount, bidTotalPrice);
+      // Excess payment is refunded
+      await expect(tx).to.changeEtherBalances([secondBuyer, marketplace], [-bidTotalPrice, bidTotalPrice]);
+
+      const order = await marketplace.buyOrders(secondBuyOrderId);
+      const timestamp = await ethers.provider.getBlock('latest').then(block => block!.timestamp);
+      expect(order.isActive).to.be.true;
+      expect(order.buyer).to.equal(secondBuyer.address);
+      expect(order.tokenId).to.equal(tokenId);
+      expect(order.creditsAmount).to.equal(bidAmount);
+      expect(order.orderPrice).to.equal(bidTotalPrice);
+      expect(order.expirationTimestamp).to.equal(timestamp + SEVEN_DAYS);
+    });
+
+    it("Should prevent creating an underfunded or invalid buy order", async function () {
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(tokenId, bidAmount, bidPricePerCredit, { value: bidTotalPrice - 1n })
+      ).to.be.revertedWithCustomError(marketplace, insufficientPaymentError);
+
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(tokenId, bidAmount, 0)
+      ).to.be.revertedWithCustomError(marketplace, invalidPriceError).withArgs(0);
+
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(await carbonToken.getTokenId(999, vintage), bidAmount, bidPricePerCredit, { value: bidTotalPrice })
+      ).to.be.revertedWithCustomError(marketplace, projectNotFoundError).withArgs(999);
+    });
+
+    it("Should let credit holders fill a buy order", async function () {
+      const fillAmount = 200n;
+      const fillPrice = fillAmount * bidPricePerCredit;
+
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(buyOrderId, fillAmount)
+      ).to.emit(marketplace, buyOrderFilledEvent).withArgs(seller.address, buyer.address, buyOrderId, fillAmount, fillPrice);
+
+      let order = await marketplace.buyOrders(buyOrderId);
+      expect(order.isActive).to.be.true;
+      expect(order.creditsAmount).to.equal(bidAmount - fillAmount);
+      expect(order.orderPrice).to.equal(bidTotalPrice - fillPrice);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(fillAmount);
+
+      await marketplace.connect(seller).fillBuyOrder(buyOrderId, bidAmount - fillAmount);
+      order = await marketplace.buyOrders(buyOrderId);
+      expect(order.isActive).to.be.false;
+      expect(order.creditsAmount).to.equal(0);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(bidAmount);
+
+      const feePercentage = await marketplace.platformFeeBasisPoints();
+      const sellerBalance = await marketplace.accountBalances(seller.address);
+      const contractBalance = await marketplace.accountBalances(marketplace.getAddress());
+      expect(contractBalance).to.equal(fillPrice * feePercentage / 10000n + (bidTotalPrice - fillPrice) * feePercentage / 10000n);
+      expect(sellerBalance + contractBalance).to.equal(bidTotalPrice);
+    });
+
+    it("Should prevent filling a buy order without approval or credits", async function () {
+      await expect(
+        marketplace.connect(secondBuyer).fillBuyOrder(buyOrderId, 10)
+      ).to.be.revertedWithCustomError(marketplace, transferNotApprocedError);
+
+      await carbonToken.connect(secondBuyer).setApprovalForAll(await marketplace.getAddress(), true);
+      await expect(
+        marketplace.connect(secondBuyer).fillBuyOrder(buyOrderId, 10)
+      ).to.be.revertedWithCustomError(marketplace, insufficientBalanceError).withArgs(10);
+
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(buyOrderId, bidAmount + 1n)
+      ).to.be.revertedWithCustomError(marketplace, invalidAmountError).withArgs(bidAmount + 1n);
+    });
+
+    it("Should refund the buyer when a buy order is removed", async function () {
+      const fillAmount = 100n;
+      await marketplace.connect(seller).fillBuyOrder(buyOrderId, fillAmount);
+      const remainingPrice = (bidAmount - fillAmount) * bidPricePerCredit;
+
+      const tx = marketplace.connect(buyer).removeBuyOrder(buyOrderId);
+      await expect(tx).to.emit(marketplace, buyOrderClosedEvent)
+        .withArgs(buyOrderId, buyer.address, tokenId, bidAmount - fillAmount, remainingPrice);
+      await expect(tx).to.changeEtherBalance(buyer, remainingPrice);
+
+      await expect(
+        marketplace.connect(buyer).removeBuyOrder(buyOrderId)
+      ).to.be.revertedWithCustomError(marketplace, inactiveOrderError);
+    });
+
+    it("Should prevent others from removing a buy order", async function () {
+      await expect(
+        marketplace.connect(seller).removeBuyOrder(buyOrderId)
+      ).to.be.revertedWithCustomError(marketplace, notOrderOwnerError);
+    });
+
+    it("Should close expired buy orders with a refund", async function () {
+      // Fund the keeper reserve so it can pay the closing reward
+      await marketplace.connect(owner).fundKeeperRewards(ethers.ZeroAddress, 0, {
+        value: ethers.parseEther("0.1")
+      });
+      await time.increase(SEVEN_DAYS + 1);
+
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(buyOrderId, 10)
+      ).to.be.revertedWithCustomError(marketplace, "ExpiredOrder");
+
+      const tx = marketplace.connect(secondBuyer).closeExpiredBuyOrder(buyOrderId);
+      await expect(tx).to.emit(marketplace, expiredBuyOrderClosedEvent)
+        .withArgs(buyOrderId, buyer.address, tokenId, bidAmount, bidTotalPrice);
+      await expect(tx).to.changeEtherBalance(buyer, bidTotalPrice);
+      expect((await marketplace.buyOrders(buyOrderId)).isActive).to.be.false;
+    });
+
+    it("Should prevent buy orders when market is paused", async function () {
+      await marketplace.connect(owner).toggleMarketplacePause();
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(buyOrderId, 10)
+      ).to.be.revertedWith("Trading is paused");
+      await expect(
+        marketplace.connect(buyer).createBuyOrder(tokenId, bidAmount, bidPricePerCredit, { value: bidTotalPrice })
+      ).to.be.revertedWith("Trading is paused");
+    });
+  });
+
+  describe("ERC-20 Settlement", function () {
+    let usdc: MockERC20;
+    const orderId = 0;
+    const orderAmount = 1000n;
+    const pricePerCredit = 25_000_000n; // 25 USDC
+    const orderTotalPrice = orderAmount * pricePerCredit;
+
+    beforeEach(async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+      await usdc.mint(buyer.address, orderTotalPrice * 10n);
+      await usdc.connect(buyer).approve(await marketplace.getAddress(), ethers.MaxUint256);
+
+      await expect(
+        marketplace.connect(owner).setPaymentTokenAllowed(await usdc.getAddress(), true)
+      ).to.emit(marketplace, "PaymentTokenAllowed").withArgs(await usdc.getAddress(), true);
+
+      await marketplace.connect(seller).createTokenSellOrder(
+        tokenId, 
+        orderAmount, 
+        pricePerCredit, 
+        SEVEN_DAYS, 
+        await usdc.getAddress()
+      );
+    });
+
+    it("Should only accept allow-listed payment tokens", async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      const otherToken = await MockERC20Factory.deploy("Other", "OTH", 18);
+      await expect(
+        marketplace.connect(seller).createTokenSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS, await otherToken.getAddress())
+      ).to.be.revertedWithCustomError(marketplace, paymentTokenNotAllowedError).withArgs(await otherToken.getAddress());
+
+      await expect(
+        marketplace.connect(buyer).setPaymentTokenAllowed(await otherToken.getAddress(), true)
+      ).to.be.revertedWithCustomError(marketplace, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should settle a trade in the payment token", async function () {
+      const order = await marketplace.tradeOrders(orderId);
+      expect(order.paymentToken).to.equal(await usdc.getAddress());
+
+      const fillAmount = 400n;
+      const fillPrice = fillAmount * pricePerCredit;
+      const tx = marketplace.connect(buyer).executePartialTrade(orderId, fillAmount);
+      await expect(tx).to.emit(marketplace, orderFilledEvent).withArgs(buyer.address, seller.address, orderId, fillAmount, fillPrice);
+      await expect(tx).to.changeTokenBalances(usdc, [buyer, marketplace], [-fillPrice, fillPrice]);
+
+      await marketplace.connect(buyer).executeTrade(orderId);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(orderAmount);
+
+      // Fees are collected per token and ETH balances are untouched
+      const feePercentage = await marketplace.platformFeeBasisPoints();
+      const sellerBalance = await marketplace.tokenAccountBalances(await usdc.getAddress(), seller.address);
+      const contractBalance = await marketplace.tokenAccountBalances(await usdc.getAddress(), marketplace.getAddress());
+      expect(contractBalance).to.equal(fillPrice * feePercentage / 10000n + (orderTotalPrice - fillPrice) * feePercentage / 10000n);
+      expect(sellerBalance + contractBalance).to.equal(orderTotalPrice);
+      expect(await marketplace.accountBalances(seller.address)).to.equal(0);
+      expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(0);
+    });
+
+    it("Should reject native coin payments for token orders", async function () {
+      await expect(
+        marketplace.connect(buyer).executeTrade(orderId, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(marketplace, "NativePaymentNotAccepted");
+    });
+
+    it("Should allow sellers to withdraw their token balance", async function () {
+      await marketplace.connect(buyer).executeTrade(orderId);
+      const sellerBalance = await marketplace.tokenAccountBalances(await usdc.getAddress(), seller.address);
+
+      await expect(
+        marketplace.connect(seller).withdrawTokenBalance(await usdc.getAddress(), seller.address, sellerBalance + 1n)
+      ).to.be.revertedWithCustomError(marketplace, insufficientBalanceError).withArgs(sellerBalance);
+
+      await expect(
+        marketplace.connect(seller).withdrawTokenBalance(await usdc.getAddress(), seller.address, sellerBalance)
+      ).to.changeTokenBalances(usdc, [seller, marketplace], [sellerBalance, -sellerBalance]);
+      expect(await marketplace.tokenAccountBalances(await usdc.getAddress(), seller.address)).to.equal(0);
+    });
+
+    it("Should escrow and refund token buy orders", async function () {
+      const buyOrderId = 0;
+      const bidAmount = 100n;
+      const bidTotalPrice = bidAmount * pricePerCredit;
+
+      await expect(
+        marketplace.connect(buyer).createTokenBuyOrder(tokenId, bidAmount, pricePerCredit, await usdc.getAddress())
+      ).to.changeTokenBalances(usdc, [buyer, marketplace], [-bidTotalPrice, bidTotalPrice]);
+
+      const fillAmount = 40n;
+      await marketplace.connect(seller).fillBuyOrder(buyOrderId, fillAmount);
+      const feePercentage = await marketplace.platformFeeBasisPoints();
+      const fillPrice = fillAmount * pricePerCredit;
+      expect(
+        await marketplace.tokenAccountBalances(await usdc.getAddress(), seller.address)
+      ).to.equal(fillPrice - fillPrice * feePercentage / 10000n);
+
+      await expect(
+        marketplace.connect(buyer).removeBuyOrder(buyOrderId)
+      ).to.changeTokenBalances(usdc, [buyer, marketplace], [bidTotalPrice - fillPrice, fillPrice - bidTotalPrice]);
+    });
+
+    it("Should pay expired order rewards in the order's payment token", async function () {
+      // Fund the keeper reserve in the payment token
+      const reserve = orderTotalPrice / 100n;
+      await expect(
+        marketplace.connect(buyer).fundKeeperRewards(await usdc.getAddress(), reserve)
+      ).to.emit(marketplace, "KeeperRewardsFunded").withArgs(await usdc.getAddress(), buyer.address, reserve);
+
+      await time.increase(SEVEN_DAYS + 1);
+      await marketplace.connect(secondBuyer).closeExpiredOrder(orderId);
+
+      const reward = orderTotalPrice * await marketplace.closeExpiredOrderReward() / 10000n;
+      expect(await marketplace.tokenAccountBalances(await usdc.getAddress(), secondBuyer.address)).to.equal(reward);
+      expect(await marketplace.keeperRewardReserves(await usdc.getAddress())).to.equal(reserve - reward);
+      expect(await marketplace.accountBalances(secondBuyer.address)).to.equal(0);
+    });
+  });
+
+  describe("Signed Orders", function () {
+    const orderAmount = 600n;
+    const pricePerCredit = ethers.parseEther("0.01");
+    let signedOrder: CarbonCreditMarketplace.SignedOrderStruct;
+    let signature: string;
+
+    async function signOrder(order: CarbonCreditMarketplace.SignedOrderStruct, signer: SignerWithAddress) {
+      const domain = {
+        name: "CarbonCreditMarketplace",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await marketplace.getAddress(),
+      };
+      const types = {
+        SignedOrder: [
+          { name: "seller", type: "address" },
+          { name: "tokenId", type: "uint256" },
+          { name: "creditsAmount", type: "uint256" },
+          { name: "pricePerCredit", type: "uint256" },
+          { name: "paymentToken", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "expirationTimestamp", type: "uint256" },
+        ],
+      };
+      return signer.signTypedData(domain, types, order);
+    }
+
+    beforeEach(async function () {
+      signedOrder = {
+        seller: seller.address,
+        tokenId: tokenId,
+        creditsAmount: orderAmount,
+        pricePerCredit: pricePerCredit,
+        paymentToken: ethers.ZeroAddress,
+        nonce: 0,
+        expirationTimestamp: (await time.latest()) + SEVEN_DAYS,
+      };
+      signature = await signOrder(signedOrder, seller);
+    });
+
+    it("Should fill a signed order without escrowing the credits", async function () {
+      const orderHash = await marketplace.getSignedOrderHash(signedOrder);
+      const fillAmount = 250n;
+      const fillPrice = fillAmount * pricePerCredit;
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+
+      const tx = marketplace.connect(buyer).fillSignedOrder(signedOrder, signature, fillAmount, { value: fillPrice });
+      await expect(tx).to.emit(marketplace, "SignedOrderFilled").withArgs(buyer.address, seller.address, orderHash, fillAmount, fillPrice);
+      // The proceeds split refers to the signed order by its hash
+      await expect(tx).to.emit(marketplace, "TradeProceedsSplit")
+        .withArgs(tokenId, seller.address, anyValue, BigInt(orderHash), buyer.address, fillPrice, anyValue, anyValue, anyValue);
+
+      expect(await marketplace.signedOrderFills(orderHash)).to.equal(fillAmount);
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(fillAmount);
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance - fillAmount);
+
+      const feePercentage = await marketplace.platformFeeBasisPoints();
+      expect(await marketplace.accountBalances(seller.address)).to.equal(fillPrice - fillPrice * feePercentage / 10000n);
+
+      // Only the unfilled remainder can be bought
+      await expect(
+        marketplace.connect(secondBuyer).fillSignedOrder(signedOrder, signature, orderAmount, { value: orderAmount * pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, invalidAmountError).withArgs(orderAmount);
+      await marketplace.connect(secondBuyer).fillSignedOrder(
+        signedOrder, signature, orderAmount - fillAmount, { value: (orderAmount - fillAmount) * pricePerCredit }
+      );
+      expect(await marketplace.signedOrderFills(orderHash)).to.equal(orderAmount);
+    });
+
+    it("Should reject orders not signed by the seller", async function () {
+      const forgedSignature = await signOrder(signedOrder, buyer);
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(signedOrder, forgedSignature, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+
+      // Tampering with the order invalidates the signature
+      const cheaperOrder = { ...signedOrder, pricePerCredit: 1n };
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(cheaperOrder, signature, 1, { value: 1n })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+    });
+
+    it("Should reject expired signed orders", async function () {
+      await time.increase(SEVEN_DAYS + 1);
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(signedOrder, signature, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "ExpiredSignedOrder");
+    });
+
+    it("Should check seller approval at fill time", async function () {
+      await carbonToken.connect(seller).setApprovalForAll(await marketplace.getAddress(), false);
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(signedOrder, signature, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, transferNotApprocedError);
+    });
+
+    it("Should let the seller cancel a signed order by hash", async function () {
+      const orderHash = await marketplace.getSignedOrderHash(signedOrder);
+      await expect(
+        marketplace.connect(buyer).cancelSignedOrder(signedOrder)
+      ).to.be.revertedWithCustomError(marketplace, notOrderOwnerError);
+
+      await expect(
+        marketplace.connect(seller).cancelSignedOrder(signedOrder)
+      ).to.emit(marketplace, "SignedOrderCancelled").withArgs(seller.address, orderHash);
+
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(signedOrder, signature, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "CancelledOrder").withArgs(orderHash);
+    });
+
+    it("Should let the seller cancel all signed orders by nonce", async function () {
+      await expect(
+        marketplace.connect(seller).incrementSignedOrderNonce()
+      ).to.emit(marketplace, "SignedOrderNonceIncremented").withArgs(seller.address, 1);
+
+      await expect(
+        marketplace.connect(buyer).fillSignedOrder(signedOrder, signature, 1, { value: pricePerCredit })
+      ).to.be.revertedWithCustomError(marketplace, "CancelledOrder");
+
+      // Orders signed with the new nonce are valid
+      const newOrder = { ...signedOrder, nonce: 1 };
+      const newSignature = await signOrder(newOrder, seller);
+      await marketplace.connect(buyer).fillSignedOrder(newOrder, newSignature, 1, { value: pricePerCredit });
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(1);
+    });
+  });
+
   describe("Withdraw account balance", function() {
     it("Should allow user to withdraw account balance", async function () {
       // First, add some balance to account through compliting a trade
       await marketplace.connect(seller).createSellOrder(
-        projectId, 
+        tokenId, 
         100, 
-        ethers.parseEther("0.1")
+        ethers.parseEther("0.1"), 
+        SEVEN_DAYS
       );
       await marketplace.connect(buyer).executeTrade(0, { value: ethers.parseEther("10") });
     
@@ -0,0 +1,324 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditAuctionHouse,
+  CarbonCreditMarketplace,
+  CarbonCreditToken,
+  CarbonProjectRegistry
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("CarbonCreditAuctionHouse", function () {
+  let auctionHouse: CarbonCreditAuctionHouse;
+  let marketplace: CarbonCreditMarketplace;
+  let carbonToken: CarbonCreditToken;
+  let projectRegistry: CarbonProjectRegistry;
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let bidder: SignerWithAddress;
+  let secondBidder: SignerWithAddress;
+
+  const auctionBidPlacedEvent = "AuctionBidPlaced";
+  const auctionCancelledEvent = "AuctionCancelled";
+  const auctionSettledEvent = "AuctionSettled";
+
+  const auctionEndedError = "AuctionEnded";
+  const bidTooLowError = "BidTooLow";
+  const inactiveAuctionError = "InactiveAuction";
+
+  // Project and credit details
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const ipfsCID = "Qm12345exampleCID";
+  const uniqueVerificationId = "0000/2024";
+  const carbonRemoved = 500000;
+
+  const ONE_DAY = 24*60*60;
+  const auctionId = 0;
+  const lotSize = 1000n;
+
+  async function deployContracts() {
+    [owner, seller, bidder, secondBidder] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, owner.address, seller.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [
+      owner.address,
+      owner.address,
+      await projectRegistry.getAddress()
+    ]) as unknown as CarbonCreditToken;
+
+    const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
+    marketplace = await upgrades.deployProxy(MarketplaceFactory, [
+      await carbonToken.getAddress(),
+      await projectRegistry.getAddress(),
+      owner.address
+    ]) as unknown as CarbonCreditMarketplace;
+
+    const AuctionHouseFactory = await ethers.getContractFactory("CarbonCreditAuctionHouse");
+    auctionHouse = await AuctionHouseFactory.deploy(await marketplace.getAddress());
+
+    await projectRegistry.connect(seller).addProject(carbonRemoved, ipfsCID, uniqueVerificationId);
+    await projectRegistry.connect(owner).acceptProject(projectId);
+    const toBeMinted = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(owner).issueVintage(projectId, vintage, toBeMinted);
+    await carbonToken.connect(owner).mintCredits(seller.address, projectId, vintage, toBeMinted, "0x");
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+    await carbonToken.connect(seller).setApprovalForAll(await auctionHouse.getAddress(), true);
+  });
+
+  describe("English Auctions", function () {
+    const reservePrice = ethers.parseEther("1");
+    const minBidIncrement = ethers.parseEther("0.1");
+
+    beforeEach(async function () {
+      await auctionHouse.connect(seller).createEnglishAuction(
+        tokenId,
+        lotSize,
+        reservePrice,
+        minBidIncrement,
+        ONE_DAY
+      );
+    });
+
+    it("Should create an auction and escrow the credits", async function () {
+      const auction = await auctionHouse.auctions(auctionId);
+      expect(auction.isActive).to.be.true;
+      expect(auction.seller).to.equal(seller.address);
+      expect(auction.creditsAmount).to.equal(lotSize);
+      expect(auction.endTimestamp).to.equal(await time.latest() + ONE_DAY);
+      expect(await carbonToken.balanceOf(auctionHouse.getAddress(), tokenId)).to.equal(lotSize);
+    });
+
+    it("Should enforce the reserve price and minimum increment", async function () {
+      await expect(
+        auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice - 1n })
+      ).to.be.revertedWithCustomError(auctionHouse, bidTooLowError).withArgs(reservePrice);
+
+      await expect(
+        auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice })
+      ).to.emit(auctionHouse, auctionBidPlacedEvent).withArgs(auctionId, bidder.address, reservePrice);
+
+      await expect(
+        auctionHouse.connect(secondBidder).placeBid(auctionId, { value: reservePrice + minBidIncrement - 1n })
+      ).to.be.revertedWithCustomError(auctionHouse, bidTooLowError).withArgs(reservePrice + minBidIncrement);
+    });
+
+    it("Should refund outbid bidders", async function () {
+      await auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice });
+      await auctionHouse.connect(secondBidder).placeBid(auctionId, { value: reservePrice + minBidIncrement });
+
+      expect(await auctionHouse.accountBalances(bidder.address)).to.equal(reservePrice);
+      await expect(
+        auctionHouse.connect(bidder).withdrawAccountBalance(bidder.address, reservePrice)
+      ).to.changeEtherBalance(bidder, reservePrice);
+    });
+
+    it("Should settle an auction to the highest bidder", async function () {
+      const winningBid = reservePrice + minBidIncrement;
+      await auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice });
+      await auctionHouse.connect(secondBidder).placeBid(auctionId, { value: winningBid });
+
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.be.revertedWithCustomError(auctionHouse, "AuctionNotEnded");
+
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        auctionHouse.connect(bidder).placeBid(auctionId, { value: winningBid * 2n })
+      ).to.be.revertedWithCustomError(auctionHouse, auctionEndedError);
+
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.emit(auctionHouse, auctionSettledEvent).withArgs(auctionId, secondBidder.address, seller.address, lotSize, winningBid);
+
+      // The winner pulls the credits
+      expect(await auctionHouse.claimableCredits(secondBidder.address, tokenId)).to.equal(lotSize);
+      await expect(
+        auctionHouse.connect(secondBidder).claimCredits(tokenId, secondBidder.address)
+      ).to.emit(auctionHouse, "CreditsClaimed").withArgs(secondBidder.address, secondBidder.address, tokenId, lotSize);
+      expect(await carbonToken.balanceOf(secondBidder.address, tokenId)).to.equal(lotSize);
+      await expect(
+        auctionHouse.connect(secondBidder).claimCredits(tokenId, secondBidder.address)
+      ).to.be.revertedWithCustomError(auctionHouse, "InsufficientBalance");
+
+      // Fee goes to the marketplace fee balance
+      const platformFee = winningBid * await marketplace.platformFeeBasisPoints() / 10000n;
+      expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(platformFee);
+      expect(await auctionHouse.accountBalances(seller.address)).to.equal(winningBid - platformFee);
+
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.be.revertedWithCustomError(auctionHouse, inactiveAuctionError);
+    });
+
+    it("Should settle when the winner can't receive the credits", async function () {
+      const CallForwarderFactory = await ethers.getContractFactory("CallForwarderMock");
+      const contractBidder = await CallForwarderFactory.deploy();
+      await contractBidder.execute(
+        auctionHouse.getAddress(),
+        auctionHouse.interface.encodeFunctionData("placeBid", [auctionId]),
+        { value: reservePrice }
+      );
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.emit(auctionHouse, auctionSettledEvent)
+        .withArgs(auctionId, await contractBidder.getAddress(), seller.address, lotSize, reservePrice);
+      const platformFee = reservePrice * await marketplace.platformFeeBasisPoints() / 10000n;
+      expect(await auctionHouse.accountBalances(seller.address)).to.equal(reservePrice - platformFee);
+
+      // The credits can be claimed to an address that accepts them
+      await contractBidder.execute(
+        auctionHouse.getAddress(),
+        auctionHouse.interface.encodeFunctionData("claimCredits", [tokenId, bidder.address])
+      );
+      expect(await carbonToken.balanceOf(bidder.address, tokenId)).to.equal(lotSize);
+    });
+
+    it("Should return the credits when nobody bid", async function () {
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.emit(auctionHouse, auctionCancelledEvent).withArgs(auctionId, seller.address);
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance + lotSize);
+    });
+
+    it("Should refund the highest bid when the project is suspended", async function () {
+      await auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice });
+      await projectRegistry.connect(owner).suspendProject(projectId, "Under investigation");
+      await expect(
+        auctionHouse.connect(secondBidder).placeBid(auctionId, { value: reservePrice + minBidIncrement })
+      ).to.be.revertedWithCustomError(marketplace, "ProjectNotAudited").withArgs(projectId);
+
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.emit(auctionHouse, auctionCancelledEvent).withArgs(auctionId, seller.address);
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance + lotSize);
+      expect(await auctionHouse.accountBalances(bidder.address)).to.equal(reservePrice);
+      expect(await auctionHouse.claimableCredits(bidder.address, tokenId)).to.equal(0);
+    });
+
+    it("Should settle with a fee schedule that doesn't record auction trades", async function () {
+      const FeeScheduleFactory = await ethers.getContractFactory("CarbonFeeSchedule");
+      const feeSchedule = await FeeScheduleFactory.deploy(marketplace.getAddress(), owner.address);
+      await marketplace.connect(owner).setFeeSchedule(feeSchedule.getAddress());
+      await feeSchedule.connect(owner).setAccountFeeOverride(seller.address, 50);
+
+      await auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice });
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        auctionHouse.settleAuction(auctionId)
+      ).to.emit(auctionHouse, auctionSettledEvent);
+      expect(await auctionHouse.accountBalances(seller.address)).to.equal(reservePrice - reservePrice * 50n / 10000n);
+      expect(await feeSchedule.trailingVolume(bidder.address, ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should only allow cancelling before the first bid", async function () {
+      await expect(
+        auctionHouse.connect(bidder).cancelAuction(auctionId)
+      ).to.be.revertedWithCustomError(auctionHouse, "NotAuctionOwner");
+
+      await auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice });
+      await expect(
+        auctionHouse.connect(seller).cancelAuction(auctionId)
+      ).to.be.revertedWithCustomError(auctionHouse, "AuctionHasBids").withArgs(auctionId);
+    });
+
+    it("Should follow the marketplace pause", async function () {
+      await marketplace.connect(owner).toggleMarketplacePause();
+      await expect(
+        auctionHouse.connect(bidder).placeBid(auctionId, { value: reservePrice })
+      ).to.be.revertedWith("Trading is paused");
+      await expect(
+        auctionHouse.connect(seller).createEnglishAuction(tokenId, lotSize, reservePrice, minBidIncrement, ONE_DAY)
+      ).to.be.revertedWith("Trading is paused");
+    });
+  });
+
+  describe("Dutch Auctions", function () {
+    const startPrice = ethers.parseEther("10");
+    const floorPrice = ethers.parseEther("2");
+    const duration = 4 * ONE_DAY;
+
+    beforeEach(async function () {
+      await auctionHouse.connect(seller).createDutchAuction(
+        tokenId,
+        lotSize,
+        startPrice,
+        floorPrice,
+        duration
+      );
+    });
+
+    it("Should reject a floor price above the start price", async function () {
+      await expect(
+        auctionHouse.connect(seller).createDutchAuction(tokenId, lotSize, floorPrice, startPrice, duration)
+      ).to.be.revertedWithCustomError(auctionHouse, "InvalidPrice").withArgs(startPrice);
+    });
+
+    it("Should decay the price linearly", async function () {
+      expect(await auctionHouse.getDutchAuctionPrice(auctionId)).to.equal(startPrice);
+
+      await time.increase(duration / 4);
+      expect(await auctionHouse.getDutchAuctionPrice(auctionId)).to.equal(startPrice - (startPrice - floorPrice) / 4n);
+
+      await time.increase(duration);
+      expect(await auctionHouse.getDutchAuctionPrice(auctionId)).to.equal(floorPrice);
+    });
+
+    it("Should sell the lot at the current price and refund the excess", async function () {
+      await time.increase(duration / 2 - 1);
+      const expectedPrice = startPrice - (startPrice - floorPrice) / 2n;
+
+      const tx = auctionHouse.connect(bidder).buyDutchAuction(auctionId, { value: startPrice });
+      await expect(tx).to.emit(auctionHouse, auctionSettledEvent).withArgs(auctionId, bidder.address, seller.address, lotSize, expectedPrice);
+      await expect(tx).to.changeEtherBalance(bidder, -expectedPrice);
+      expect(await carbonToken.balanceOf(bidder.address, tokenId)).to.equal(lotSize);
+
+      const platformFee = expectedPrice * await marketplace.platformFeeBasisPoints() / 10000n;
+      expect(await auctionHouse.accountBalances(seller.address)).to.equal(expectedPrice - platformFee);
+
+      await expect(
+        auctionHouse.connect(secondBidder).buyDutchAuction(auctionId, { value: startPrice })
+      ).to.be.revertedWithCustomError(auctionHouse, inactiveAuctionError);
+    });
+
+    it("Should prevent buying below the current price or after the end", async function () {
+      await expect(
+        auctionHouse.connect(bidder).buyDutchAuction(auctionId, { value: floorPrice })
+      ).to.be.revertedWithCustomError(auctionHouse, "InsufficientPayment");
+
+      await time.increase(duration + 1);
+      await expect(
+        auctionHouse.connect(bidder).buyDutchAuction(auctionId, { value: startPrice })
+      ).to.be.revertedWithCustomError(auctionHouse, auctionEndedError);
+    });
+
+    it("Should not accept English bids", async function () {
+      await expect(
+        auctionHouse.connect(bidder).placeBid(auctionId, { value: startPrice })
+      ).to.be.revertedWithCustomError(auctionHouse, inactiveAuctionError);
+    });
+
+    it("Should let the seller cancel an unsold auction", async function () {
+      await expect(
+        auctionHouse.connect(seller).cancelAuction(auctionId)
+      ).to.emit(auctionHouse, auctionCancelledEvent).withArgs(auctionId, seller.address);
+      expect(await carbonToken.balanceOf(auctionHouse.getAddress(), tokenId)).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditToken,
+  CarbonProjectRegistry,
+  CarbonRetirementCertificate
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("CarbonRetirementCertificate", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let certificate: CarbonRetirementCertificate;
+
+  let admin: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const certificateIssuedEvent = "CertificateIssued";
+
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const carbonRemoved = 100000;
+  const beneficiary = "Example Corp";
+  const description = "Scope 1 emissions 2024";
+
+  async function deployContracts() {
+    [admin, holder, otherAccount] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, admin.address, holder.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [admin.address, admin.address, await projectRegistry.getAddress()]) as unknown as CarbonCreditToken;
+
+    const CertificateFactory = await ethers.getContractFactory("CarbonRetirementCertificate");
+    certificate = await CertificateFactory.deploy(carbonToken.getAddress());
+    await carbonToken.connect(admin).setRetirementCertificate(certificate.getAddress());
+
+    await projectRegistry.connect(holder).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(admin).acceptProject(projectId);
+    const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(admin).issueVintage(projectId, vintage, creditsIssued);
+    await carbonToken.connect(admin).mintCredits(holder.address, projectId, vintage, creditsIssued, "0x");
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  it("Should mint a certificate with sequential IDs for every retirement", async function () {
+    const tx = await carbonToken.connect(holder).retireCredits(tokenId, 100, beneficiary, description);
+    await expect(tx).to.emit(certificate, certificateIssuedEvent).withArgs(0, holder.address, tokenId, 100);
+    const retiredAt = await time.latest();
+    await carbonToken.connect(holder).retireCredits(tokenId, 50, "Other Corp", "Travel");
+
+    expect(await certificate.ownerOf(1)).to.equal(holder.address);
+    expect(await certificate.getRetireeCertificates(holder.address)).to.deep.equal([0n, 1n]);
+
+    const record = await certificate.getCertificate(0);
+    expect(record.retiree).to.equal(holder.address);
+    expect(record.projectId).to.equal(projectId);
+    expect(record.vintage).to.equal(vintage);
+    expect(record.amount).to.equal(100);
+    expect(record.timestamp).to.equal(retiredAt);
+    expect(record.beneficiary).to.equal(beneficiary);
+    expect(record.description).to.equal(description);
+  });
+
+  it("Should mint the certificate to the account a retirement is attributed to", async function () {
+    await carbonToken.connect(admin).grantRole(await carbonToken.RETIREMENT_AGENT_ROLE(), holder.address);
+    await carbonToken.connect(holder).retireCreditsOnBehalf(otherAccount.address, tokenId, 10, beneficiary, description);
+
+    expect(await certificate.ownerOf(0)).to.equal(otherAccount.address);
+    expect(await certificate.getRetireeCertificates(holder.address)).to.deep.equal([]);
+  });
+
+  it("Should issue certificates to contracts without a receiver hook", async function () {
+    const CallForwarderFactory = await ethers.getContractFactory("CallForwarderMock");
+    const contractRetiree = await CallForwarderFactory.deploy();
+    await carbonToken.connect(admin).grantRole(await carbonToken.RETIREMENT_AGENT_ROLE(), holder.address);
+    await carbonToken.connect(holder).retireCreditsOnBehalf(contractRetiree.getAddress(), tokenId, 10, beneficiary, description);
+
+    expect(await certificate.ownerOf(0)).to.equal(await contractRetiree.getAddress());
+  });
+
+  it("Should not be transferable", async function () {
+    await carbonToken.connect(holder).retireCredits(tokenId, 100, beneficiary, description);
+    await expect(
+      certificate.connect(holder).transferFrom(holder.address, otherAccount.address, 0)
+    ).to.be.revertedWithCustomError(certificate, "NonTransferableCertificate").withArgs(0);
+  });
+
+  it("Should only be issued by the credit token", async function () {
+    await expect(
+      certificate.connect(admin).issueCertificate(admin.address, tokenId, 100, beneficiary, description)
+    ).to.be.revertedWithCustomError(certificate, "NotCarbonToken");
+  });
+
+  it("Should render the certificate on-chain", async function () {
+    await carbonToken.connect(holder).retireCredits(tokenId, 100, 'Example "Corp" <Ltd>', description);
+
+    const uri = await certificate.tokenURI(0);
+    const prefix = "data:application/json;base64,";
+    expect(uri.startsWith(prefix)).to.be.true;
+    const metadata = JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString());
+
+    expect(metadata.name).to.equal("Retirement Certificate #0");
+    expect(metadata.description).to.equal(description);
+    expect(metadata.attributes).to.deep.include({ trait_type: "Vintage", value: vintage });
+    expect(metadata.attributes).to.deep.include({ trait_type: "Beneficiary", value: "Example _Corp_ _Ltd_" });
+
+    const svg = Buffer.from(metadata.image.split(",")[1], "base64").toString();
+    expect(svg).to.contain("100 tonnes retired");
+    expect(svg).to.contain(`Project ${projectId}, vintage ${vintage}`);
+  });
+});
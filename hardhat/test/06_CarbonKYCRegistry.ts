@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditMarketplace,
+  CarbonCreditToken,
+  CarbonKYCRegistry,
+  CarbonProjectRegistry
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("CarbonKYCRegistry", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let marketplace: CarbonCreditMarketplace;
+  let kycRegistry: CarbonKYCRegistry;
+
+  let admin: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const transferRestrictedError = "TransferRestricted";
+
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const carbonRemoved = 100000;
+  const SEVEN_DAYS = 7*24*60*60;
+
+  async function deployContracts() {
+    [admin, seller, buyer, otherAccount] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, admin.address, seller.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [admin.address, admin.address, await projectRegistry.getAddress()]) as unknown as CarbonCreditToken;
+
+    const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
+    marketplace = await upgrades.deployProxy(MarketplaceFactory, [await carbonToken.getAddress(), await projectRegistry.getAddress(), admin.address]) as unknown as CarbonCreditMarketplace;
+
+    const KYCRegistryFactory = await ethers.getContractFactory("CarbonKYCRegistry");
+    kycRegistry = await KYCRegistryFactory.deploy(admin.address, admin.address);
+    await carbonToken.connect(admin).setKYCRegistry(kycRegistry.getAddress());
+    await carbonToken.connect(admin).setTransferRestrictionExempt(marketplace.getAddress(), true);
+
+    await projectRegistry.connect(seller).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(admin).acceptProject(projectId);
+    const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(admin).issueVintage(projectId, vintage, creditsIssued);
+    await carbonToken.connect(admin).mintCredits(seller.address, projectId, vintage, creditsIssued, "0x");
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  describe("Verification", function () {
+    it("Should verify accounts globally or per project", async function () {
+      await expect(
+        kycRegistry.connect(admin).setAccountVerified(buyer.address, true)
+      ).to.emit(kycRegistry, "AccountVerificationUpdated").withArgs(buyer.address, true);
+      await expect(
+        kycRegistry.connect(admin).setProjectAccountVerified(projectId, otherAccount.address, true)
+      ).to.emit(kycRegistry, "ProjectAccountVerificationUpdated").withArgs(projectId, otherAccount.address, true);
+
+      expect(await kycRegistry.isVerified(buyer.address, projectId + 1)).to.be.true;
+      expect(await kycRegistry.isVerified(otherAccount.address, projectId)).to.be.true;
+      expect(await kycRegistry.isVerified(otherAccount.address, projectId + 1)).to.be.false;
+    });
+
+    it("Should only let KYC managers manage the list", async function () {
+      await expect(
+        kycRegistry.connect(buyer).setAccountVerified(buyer.address, true)
+      ).to.be.revertedWithCustomError(kycRegistry, "AccessControlUnauthorizedAccount");
+      await expect(
+        carbonToken.connect(buyer).setProjectTransferRestriction(projectId, true)
+      ).to.be.revertedWithCustomError(carbonToken, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Transfer Restrictions", function () {
+    it("Should not restrict transfers until enabled", async function () {
+      await carbonToken.connect(seller).safeTransferFrom(seller.address, buyer.address, tokenId, 10, "0x");
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(10);
+    });
+
+    it("Should block transfers to unverified accounts of a restricted project", async function () {
+      await expect(
+        carbonToken.connect(admin).setProjectTransferRestriction(projectId, true)
+      ).to.emit(carbonToken, "TransferRestrictionUpdated").withArgs(projectId, true);
+
+      await expect(
+        carbonToken.connect(seller).safeTransferFrom(seller.address, buyer.address, tokenId, 10, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(seller.address, tokenId);
+
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await expect(
+        carbonToken.connect(seller).safeTransferFrom(seller.address, buyer.address, tokenId, 10, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(buyer.address, tokenId);
+
+      await kycRegistry.connect(admin).setProjectAccountVerified(projectId, buyer.address, true);
+      await carbonToken.connect(seller).safeTransferFrom(seller.address, buyer.address, tokenId, 10, "0x");
+      expect(await carbonToken.balanceOf(buyer.address, tokenId)).to.equal(10);
+    });
+
+    it("Should apply the global restriction to every project", async function () {
+      await carbonToken.connect(admin).setGlobalTransferRestriction(true);
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await expect(
+        carbonToken.connect(seller).safeBatchTransferFrom(seller.address, buyer.address, [tokenId], [10], "0x")
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(buyer.address, tokenId);
+    });
+
+    it("Should always allow marketplace escrow and retirements", async function () {
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+
+      // Listing and delisting only need the seller to be verified
+      await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+      await marketplace.connect(seller).createSellOrder(tokenId, 100, ethers.parseEther("0.001"), SEVEN_DAYS);
+      await marketplace.connect(seller).removeSellOrder(0);
+
+      // Unverified holders can still retire their credits
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, false);
+      await carbonToken.connect(seller).safeTransferFrom(seller.address, otherAccount.address, tokenId, 10, "0x");
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+      await carbonToken.connect(otherAccount).retireCredits(tokenId, 10, "Example Corp", "Offset");
+      expect(await carbonToken.balanceOf(otherAccount.address, tokenId)).to.equal(0);
+    });
+
+    it("Should return escrow to a seller whose verification was revoked", async function () {
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+      await marketplace.connect(seller).createSellOrder(tokenId, 100, ethers.parseEther("0.001"), SEVEN_DAYS);
+
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, false);
+      const sellerInitialBalance = await carbonToken.balanceOf(seller.address, tokenId);
+      await marketplace.connect(seller).removeSellOrder(0);
+      expect(await carbonToken.balanceOf(seller.address, tokenId)).to.equal(sellerInitialBalance + 100n);
+    });
+
+    it("Should only return escrow through exempt escrows", async function () {
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await carbonToken.connect(seller).safeTransferFrom(seller.address, otherAccount.address, tokenId, 10, "0x");
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+
+      await expect(
+        carbonToken.connect(seller).returnEscrow(buyer.address, tokenId, 10)
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(buyer.address, tokenId);
+      await expect(
+        carbonToken.connect(otherAccount).returnEscrow(seller.address, tokenId, 10)
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(otherAccount.address, tokenId);
+    });
+
+    it("Should not let a sold escrow pass restrictions for its seller", async function () {
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await kycRegistry.connect(admin).setAccountVerified(buyer.address, true);
+      await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+      await carbonToken.connect(buyer).setApprovalForAll(marketplace.getAddress(), true);
+      const pricePerCredit = ethers.parseEther("0.001");
+      await marketplace.connect(seller).createSellOrder(tokenId, 100, pricePerCredit, SEVEN_DAYS);
+      await marketplace.connect(buyer).executeTrade(0, { value: 100n * pricePerCredit });
+
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, false);
+      await expect(
+        carbonToken.connect(buyer).safeTransferFrom(buyer.address, seller.address, tokenId, 10, "0x")
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(seller.address, tokenId);
+
+      await marketplace.connect(buyer).createSellOrder(tokenId, 50, pricePerCredit, SEVEN_DAYS);
+      await expect(
+        marketplace.connect(seller).executeTrade(1, { value: 50n * pricePerCredit })
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(seller.address, tokenId);
+    });
+
+    it("Should block unverified buyers from taking credits out of escrow", async function () {
+      await carbonToken.connect(admin).setProjectTransferRestriction(projectId, true);
+      await kycRegistry.connect(admin).setAccountVerified(seller.address, true);
+      await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+      const pricePerCredit = ethers.parseEther("0.001");
+      await marketplace.connect(seller).createSellOrder(tokenId, 100, pricePerCredit, SEVEN_DAYS);
+
+      await expect(
+        marketplace.connect(buyer).executeTrade(0, { value: 100n * pricePerCredit })
+      ).to.be.revertedWithCustomError(carbonToken, transferRestrictedError).withArgs(buyer.address, tokenId);
+    });
+  });
+});
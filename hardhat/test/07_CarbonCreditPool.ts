@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditPool,
+  CarbonCreditToken,
+  CarbonProjectRegistry
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("CarbonCreditPool", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let pool: CarbonCreditPool;
+
+  let admin: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const ineligibleCreditsError = "IneligibleCredits";
+
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const oldTokenId = (projectId << 16) | 2015;
+  const carbonRemoved = 100000;
+  const criteria = { minVintage: 2020, maxVintage: 2030, minAuditDate: 0 };
+
+  async function deployContracts() {
+    [admin, holder, otherAccount] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, admin.address, holder.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [admin.address, admin.address, await projectRegistry.getAddress()]) as unknown as CarbonCreditToken;
+
+    const PoolFactory = await ethers.getContractFactory("CarbonCreditPool");
+    pool = await PoolFactory.deploy(
+      "Carbon Tonne", "CTON", carbonToken.getAddress(), projectRegistry.getAddress(), admin.address, criteria
+    );
+    await carbonToken.connect(admin).grantRole(await carbonToken.RETIREMENT_AGENT_ROLE(), pool.getAddress());
+
+    await projectRegistry.connect(holder).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(admin).acceptProject(projectId);
+    await projectRegistry.connect(admin).issueVintage(projectId, vintage, 50000);
+    await projectRegistry.connect(admin).issueVintage(projectId, 2015, 10000);
+    await carbonToken.connect(admin).mintCredits(holder.address, projectId, vintage, 50000, "0x");
+    await carbonToken.connect(admin).mintCredits(holder.address, projectId, 2015, 10000, "0x");
+    await carbonToken.connect(holder).setApprovalForAll(pool.getAddress(), true);
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  describe("Deposits", function () {
+    it("Should mint one pool token per deposited credit", async function () {
+      await expect(
+        pool.connect(holder).deposit(tokenId, 1000)
+      ).to.emit(pool, "CreditsDeposited").withArgs(holder.address, tokenId, 1000);
+
+      expect(await pool.balanceOf(holder.address)).to.equal(1000);
+      expect(await pool.decimals()).to.equal(0);
+      expect(await carbonToken.balanceOf(pool.getAddress(), tokenId)).to.equal(1000);
+      expect(await pool.getPooledTokenIds()).to.deep.equal([BigInt(tokenId)]);
+    });
+
+    it("Should only accept credits matching the pool criteria", async function () {
+      await expect(
+        pool.connect(holder).deposit(oldTokenId, 100)
+      ).to.be.revertedWithCustomError(pool, ineligibleCreditsError).withArgs(oldTokenId);
+
+      await pool.connect(admin).updatePoolCriteria({ ...criteria, minAuditDate: (await time.latest()) + 1 });
+      await expect(
+        pool.connect(holder).deposit(tokenId, 100)
+      ).to.be.revertedWithCustomError(pool, ineligibleCreditsError).withArgs(tokenId);
+    });
+
+    it("Should reject credits of projects that are not audited", async function () {
+      await projectRegistry.connect(admin).suspendProject(projectId, "Reversal under investigation");
+      await expect(
+        pool.connect(holder).deposit(tokenId, 100)
+      ).to.be.revertedWithCustomError(pool, ineligibleCreditsError).withArgs(tokenId);
+      expect(await pool.isEligible((1 << 16) | vintage)).to.be.false;
+    });
+
+    it("Should validate criteria updates", async function () {
+      await expect(
+        pool.connect(holder).updatePoolCriteria(criteria)
+      ).to.be.revertedWithCustomError(pool, "OwnableUnauthorizedAccount");
+      await expect(
+        pool.connect(admin).updatePoolCriteria({ ...criteria, minVintage: 2031 })
+      ).to.be.revertedWithCustomError(pool, "InvalidVintageRange").withArgs(2031, criteria.maxVintage);
+      await expect(
+        pool.connect(admin).updatePoolCriteria({ ...criteria, minVintage: 0 })
+      ).to.be.revertedWithCustomError(pool, "InvalidVintageRange");
+    });
+  });
+
+  describe("Redemptions", function () {
+    beforeEach(async function () {
+      await pool.connect(holder).deposit(tokenId, 1000);
+    });
+
+    it("Should redeem specific credits and charge the fee in pool tokens", async function () {
+      await pool.connect(admin).updateRedeemFee(200);
+      await pool.connect(admin).setFeeRecipient(otherAccount.address);
+
+      await expect(
+        pool.connect(holder).redeem(tokenId, 500)
+      ).to.emit(pool, "CreditsRedeemed").withArgs(holder.address, tokenId, 500, 10);
+
+      expect(await pool.balanceOf(holder.address)).to.equal(490);
+      expect(await pool.balanceOf(otherAccount.address)).to.equal(10);
+      expect(await pool.totalSupply()).to.equal(500);
+      expect(await carbonToken.balanceOf(holder.address, tokenId)).to.equal(49500);
+    });
+
+    it("Should round the redeem fee up on small redemptions", async function () {
+      await pool.connect(admin).updateRedeemFee(1000);
+      expect(await pool.getRedeemFee(9)).to.equal(1);
+
+      await expect(
+        pool.connect(holder).redeem(tokenId, 9)
+      ).to.emit(pool, "CreditsRedeemed").withArgs(holder.address, tokenId, 9, 1);
+      expect(await pool.balanceOf(holder.address)).to.equal(990);
+    });
+
+    it("Should not redeem more credits than the pool holds", async function () {
+      await expect(
+        pool.connect(holder).redeem(tokenId, 1001)
+      ).to.be.revertedWithCustomError(pool, "InsufficientPooledCredits").withArgs(tokenId, 1000);
+
+      await pool.connect(holder).redeem(tokenId, 1000);
+      expect(await pool.getPooledTokenIds()).to.deep.equal([]);
+    });
+
+    it("Should cap the redeem fee", async function () {
+      await expect(
+        pool.connect(admin).updateRedeemFee(1001)
+      ).to.be.revertedWithCustomError(pool, "InvalidRedeemFee").withArgs(1001);
+    });
+
+    it("Should retire pooled credits in the holder's name", async function () {
+      await pool.connect(admin).updateRedeemFee(200);
+
+      const tx = pool.connect(holder).retire(tokenId, 300, "Example Corp", "Offset");
+      await expect(tx).to.emit(pool, "CreditsRetiredFromPool").withArgs(holder.address, tokenId, 300);
+      await expect(tx).to.emit(carbonToken, "CreditRetired");
+
+      expect(await pool.balanceOf(holder.address)).to.equal(700);
+      expect(await carbonToken.balanceOf(pool.getAddress(), tokenId)).to.equal(700);
+    });
+  });
+});
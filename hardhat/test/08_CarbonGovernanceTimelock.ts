@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  CarbonCreditMarketplace,
+  CarbonFeeTreasury,
+  CarbonGovernanceTimelock,
+  CarbonProjectRegistry
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import CarbonCreditsGovernanceModule from "../ignition/modules/CarbonCreditMarketplaceGovernance";
+
+describe("CarbonGovernanceTimelock", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let marketplace: CarbonCreditMarketplace;
+  let feeTreasury: CarbonFeeTreasury;
+  let timelock: CarbonGovernanceTimelock;
+
+  let admin: SignerWithAddress;
+  let marketplaceOwner: SignerWithAddress;
+  let executor: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const minDelay = 24*60*60;
+  const salt = ethers.ZeroHash;
+  const predecessor = ethers.ZeroHash;
+
+  async function deployContracts() {
+    [admin, , , marketplaceOwner, executor, otherAccount] = await ethers.getSigners();
+
+    const deployment = await hre.ignition.deploy(CarbonCreditsGovernanceModule, {
+      parameters: { CarbonCreditsGovernance: { timelockMinDelay: minDelay } }
+    });
+    projectRegistry = deployment.carbonProjectRegistry as unknown as CarbonProjectRegistry;
+    marketplace = deployment.carbonCreditMarketplace as unknown as CarbonCreditMarketplace;
+    feeTreasury = deployment.carbonFeeTreasury as unknown as CarbonFeeTreasury;
+    timelock = deployment.carbonGovernanceTimelock as unknown as CarbonGovernanceTimelock;
+  }
+
+  async function scheduleFeeChange(feeBasisPoints: number) {
+    const data = marketplace.interface.encodeFunctionData("updatePlatformFee", [feeBasisPoints]);
+    await timelock.connect(admin).schedule(marketplace.getAddress(), 0, data, predecessor, salt, minDelay);
+    return data;
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  it("Should hand ownership and admin roles over to the timelock", async function () {
+    const defaultAdminRole = await projectRegistry.DEFAULT_ADMIN_ROLE();
+    expect(await marketplace.owner()).to.equal(await timelock.getAddress());
+    expect(await feeTreasury.owner()).to.equal(await timelock.getAddress());
+    expect(await feeTreasury.keeperReserveBasisPoints()).to.equal(1000);
+    expect(await marketplace.feeTreasury()).to.equal(await feeTreasury.getAddress());
+    expect(await projectRegistry.hasRole(defaultAdminRole, timelock.getAddress())).to.be.true;
+    expect(await projectRegistry.hasRole(defaultAdminRole, admin.address)).to.be.false;
+
+    await expect(
+      marketplace.connect(marketplaceOwner).updatePlatformFee(200)
+    ).to.be.revertedWithCustomError(marketplace, "OwnableUnauthorizedAccount");
+    await expect(
+      projectRegistry.connect(admin).grantRole(await projectRegistry.AUDITOR_ROLE(), otherAccount.address)
+    ).to.be.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should apply a queued fee change after the delay", async function () {
+    const data = await scheduleFeeChange(200);
+
+    await expect(
+      timelock.connect(executor).execute(marketplace.getAddress(), 0, data, predecessor, salt)
+    ).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+    await time.increase(minDelay);
+    await expect(
+      timelock.connect(executor).execute(marketplace.getAddress(), 0, data, predecessor, salt)
+    ).to.emit(marketplace, "PlatformFeeUpdated").withArgs(200);
+    expect(await marketplace.platformFeeBasisPoints()).to.equal(200);
+  });
+
+  it("Should split proposer and executor roles", async function () {
+    const data = marketplace.interface.encodeFunctionData("updatePlatformFee", [200]);
+    await expect(
+      timelock.connect(executor).schedule(marketplace.getAddress(), 0, data, predecessor, salt, minDelay)
+    ).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+    await expect(
+      timelock.connect(admin).schedule(marketplace.getAddress(), 0, data, predecessor, salt, minDelay - 1)
+    ).to.be.revertedWithCustomError(timelock, "TimelockInsufficientDelay");
+
+    await scheduleFeeChange(200);
+    await time.increase(minDelay);
+    await expect(
+      timelock.connect(admin).execute(marketplace.getAddress(), 0, data, predecessor, salt)
+    ).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should let the proposer cancel a queued fee change", async function () {
+    const data = await scheduleFeeChange(200);
+    const operationId = await timelock.hashOperation(marketplace.getAddress(), 0, data, predecessor, salt);
+    await timelock.connect(admin).cancel(operationId);
+
+    await time.increase(minDelay);
+    await expect(
+      timelock.connect(executor).execute(marketplace.getAddress(), 0, data, predecessor, salt)
+    ).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+  });
+
+  it("Should pause instantly and unpause through the timelock", async function () {
+    await expect(
+      marketplace.connect(otherAccount).emergencyPause()
+    ).to.be.revertedWithCustomError(marketplace, "NotPauseGuardian");
+    await expect(
+      marketplace.connect(admin).emergencyPause()
+    ).to.emit(marketplace, "MarketplacePauseStatusChanged").withArgs(true);
+    expect(await marketplace.marketplacePaused()).to.be.true;
+
+    const data = marketplace.interface.encodeFunctionData("toggleMarketplacePause");
+    await timelock.connect(admin).schedule(marketplace.getAddress(), 0, data, predecessor, salt, minDelay);
+    await time.increase(minDelay);
+    await timelock.connect(executor).execute(marketplace.getAddress(), 0, data, predecessor, salt);
+    expect(await marketplace.marketplacePaused()).to.be.false;
+  });
+});
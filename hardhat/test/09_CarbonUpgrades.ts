@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditMarketplace,
+  CarbonCreditMarketplaceV2Mock,
+  CarbonCreditToken,
+  CarbonCreditTokenV2Mock,
+  CarbonProjectRegistry,
+  CarbonProjectRegistryV2Mock
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import CarbonCreditsDeploymentModule from "../ignition/modules/CarbonCreditMarketplace";
+import { buildCarbonCreditsUpgradeModule } from "../ignition/modules/CarbonCreditMarketplaceUpgrade";
+
+const upgradeModuleId = "CarbonCreditsUpgradeV2Mock";
+const CarbonCreditsUpgradeModule = buildCarbonCreditsUpgradeModule(upgradeModuleId, {
+  registry: "CarbonProjectRegistryV2Mock",
+  token: "CarbonCreditTokenV2Mock",
+  marketplace: "CarbonCreditMarketplaceV2Mock"
+});
+
+describe("Upgrades", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let marketplace: CarbonCreditMarketplace;
+
+  let admin: SignerWithAddress;
+  let projectOwner: SignerWithAddress;
+  let tokenManager: SignerWithAddress;
+  let marketplaceOwner: SignerWithAddress;
+  let buyer: SignerWithAddress;
+
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const carbonRemoved = 100000;
+  const pricePerCredit = ethers.parseEther("0.001");
+  const SEVEN_DAYS = 7*24*60*60;
+  const releaseNote = "Registry V2";
+
+  async function deployContracts() {
+    [admin, projectOwner, tokenManager, marketplaceOwner, buyer] = await ethers.getSigners();
+
+    const deployment = await hre.ignition.deploy(CarbonCreditsDeploymentModule);
+    projectRegistry = deployment.carbonProjectRegistry as unknown as CarbonProjectRegistry;
+    carbonToken = deployment.carbonCreditToken as unknown as CarbonCreditToken;
+    marketplace = deployment.carbonCreditMarketplace as unknown as CarbonCreditMarketplace;
+  }
+
+  // Projects, balances and orders that have to survive the upgrade
+  async function createLiveState() {
+    await projectRegistry.connect(projectOwner).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(admin).acceptProject(projectId);
+    const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(admin).issueVintage(projectId, vintage, creditsIssued);
+    await carbonToken.connect(tokenManager).mintCredits(projectOwner.address, projectId, vintage, creditsIssued, "0x");
+
+    await carbonToken.connect(projectOwner).setApprovalForAll(marketplace.getAddress(), true);
+    await marketplace.connect(projectOwner).createSellOrder(tokenId, 100, pricePerCredit, SEVEN_DAYS);
+    await marketplace.connect(marketplaceOwner).updatePlatformFee(200);
+    return creditsIssued;
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  it("Should keep projects, balances and orders through an upgrade", async function () {
+    const creditsIssued = await createLiveState();
+    const registryAddress = await projectRegistry.getAddress();
+    const tokenAddress = await carbonToken.getAddress();
+    const marketplaceAddress = await marketplace.getAddress();
+
+    const RegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    const TokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
+    await upgrades.forceImport(registryAddress, RegistryFactory);
+    await upgrades.forceImport(tokenAddress, TokenFactory);
+    await upgrades.forceImport(marketplaceAddress, MarketplaceFactory);
+
+    const registryV2 = await upgrades.upgradeProxy(
+      registryAddress,
+      await ethers.getContractFactory("CarbonProjectRegistryV2Mock"),
+      { call: { fn: "initializeV2", args: [releaseNote] } }
+    ) as unknown as CarbonProjectRegistryV2Mock;
+    const tokenV2 = await upgrades.upgradeProxy(
+      tokenAddress,
+      await ethers.getContractFactory("CarbonCreditTokenV2Mock")
+    ) as unknown as CarbonCreditTokenV2Mock;
+    const marketplaceV2 = await upgrades.upgradeProxy(
+      marketplaceAddress,
+      await ethers.getContractFactory("CarbonCreditMarketplaceV2Mock", marketplaceOwner)
+    ) as unknown as CarbonCreditMarketplaceV2Mock;
+
+    expect(await registryV2.getAddress()).to.equal(registryAddress);
+    expect(await registryV2.version()).to.equal(2);
+    expect(await registryV2.releaseNote()).to.equal(releaseNote);
+    expect(await registryV2.isProjectAudited(projectId)).to.be.true;
+    expect(await registryV2.getVintageIssuedCredits(projectId, vintage)).to.equal(creditsIssued);
+    expect(await registryV2.carbonToken()).to.equal(tokenAddress);
+
+    expect(await tokenV2.version()).to.equal(2);
+    expect(await tokenV2.balanceOf(projectOwner.address, tokenId)).to.equal(creditsIssued - 100n);
+    expect(await tokenV2.balanceOf(marketplaceAddress, tokenId)).to.equal(100);
+    expect(await tokenV2.uri(tokenId)).to.equal("ipfs://Qm12345exampleCID");
+
+    expect(await marketplaceV2.version()).to.equal(2);
+    expect(await marketplaceV2.platformFeeBasisPoints()).to.equal(200);
+    expect(await marketplaceV2.owner()).to.equal(marketplaceOwner.address);
+    const order = await marketplaceV2.tradeOrders(0);
+    expect(order.isActive).to.be.true;
+    expect(order.seller).to.equal(projectOwner.address);
+
+    // The escrowed order can still be filled after the upgrade
+    await marketplaceV2.connect(buyer).executeTrade(0, { value: 100n * pricePerCredit });
+    expect(await tokenV2.balanceOf(buyer.address, tokenId)).to.equal(100);
+  });
+
+  it("Should upgrade through the Ignition upgrade module", async function () {
+    const registryUpgradeData = (await ethers.getContractFactory("CarbonProjectRegistryV2Mock"))
+      .interface.encodeFunctionData("initializeV2", [releaseNote]);
+    const deployment = await hre.ignition.deploy(CarbonCreditsUpgradeModule, {
+      parameters: { [upgradeModuleId]: { registryUpgradeData } }
+    });
+
+    const registryV2 = await ethers.getContractAt(
+      "CarbonProjectRegistryV2Mock", await deployment.carbonProjectRegistry.getAddress()
+    );
+    const tokenV2 = await ethers.getContractAt(
+      "CarbonCreditTokenV2Mock", await deployment.carbonCreditToken.getAddress()
+    );
+    const marketplaceV2 = await ethers.getContractAt(
+      "CarbonCreditMarketplaceV2Mock", await deployment.carbonCreditMarketplace.getAddress()
+    );
+
+    expect(await registryV2.version()).to.equal(2);
+    expect(await registryV2.releaseNote()).to.equal(releaseNote);
+    expect(await tokenV2.version()).to.equal(2);
+    expect(await marketplaceV2.version()).to.equal(2);
+    // Configuration made by the deployment module is kept
+    expect(await registryV2.carbonToken()).to.equal(await tokenV2.getAddress());
+    expect(await registryV2.mintPercentage()).to.equal(10);
+    expect(await marketplaceV2.platformFeeBasisPoints()).to.equal(120);
+    expect(await tokenV2.hasRole(await tokenV2.RETIREMENT_AGENT_ROLE(), marketplaceV2.getAddress())).to.be.true;
+  });
+
+  it("Should have storage layouts compatible with the next versions", async function () {
+    for (const contractName of ["CarbonProjectRegistry", "CarbonCreditToken", "CarbonCreditMarketplace"]) {
+      await upgrades.validateUpgrade(
+        await ethers.getContractFactory(contractName),
+        await ethers.getContractFactory(`${contractName}V2Mock`),
+        { kind: "uups" }
+      );
+    }
+  });
+
+  it("Should only let the admin or owner upgrade", async function () {
+    const registryImplementation = await (await ethers.getContractFactory("CarbonProjectRegistryV2Mock")).deploy();
+    const marketplaceImplementation = await (await ethers.getContractFactory("CarbonCreditMarketplaceV2Mock")).deploy();
+
+    await expect(
+      projectRegistry.connect(projectOwner).upgradeToAndCall(registryImplementation.getAddress(), "0x")
+    ).to.be.revertedWithCustomError(projectRegistry, "AccessControlUnauthorizedAccount");
+    await expect(
+      marketplace.connect(admin).upgradeToAndCall(marketplaceImplementation.getAddress(), "0x")
+    ).to.be.revertedWithCustomError(marketplace, "OwnableUnauthorizedAccount");
+  });
+
+  it("Should not be initialized twice", async function () {
+    await expect(
+      projectRegistry.initialize(10, buyer.address, buyer.address)
+    ).to.be.revertedWithCustomError(projectRegistry, "InvalidInitialization");
+    await expect(
+      carbonToken.initialize(buyer.address, buyer.address, buyer.address)
+    ).to.be.revertedWithCustomError(carbonToken, "InvalidInitialization");
+
+    // Implementations are locked, only proxies can be initialized
+    const implementation = await (await ethers.getContractFactory("CarbonCreditMarketplace")).deploy();
+    await expect(
+      implementation.initialize(buyer.address, buyer.address, buyer.address)
+    ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+  });
+});
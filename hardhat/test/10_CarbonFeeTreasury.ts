@@ -0,0 +1,226 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditMarketplace,
+  CarbonCreditToken,
+  CarbonFeeTreasury,
+  CarbonProjectRegistry,
+  MockERC20
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("CarbonFeeTreasury", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let marketplace: CarbonCreditMarketplace;
+  let treasury: CarbonFeeTreasury;
+  let usdc: MockERC20;
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let firstRecipient: SignerWithAddress;
+  let secondRecipient: SignerWithAddress;
+
+  const feesClaimedEvent = "FeesClaimed";
+
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const carbonRemoved = 100000;
+  const orderAmount = 1000n;
+  const pricePerCredit = ethers.parseEther("0.001");
+  const orderPrice = orderAmount * pricePerCredit;
+  const SEVEN_DAYS = 7*24*60*60;
+
+  async function deployContracts() {
+    [owner, seller, buyer, firstRecipient, secondRecipient] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, owner.address, seller.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [owner.address, owner.address, await projectRegistry.getAddress()]) as unknown as CarbonCreditToken;
+
+    const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
+    marketplace = await upgrades.deployProxy(MarketplaceFactory, [
+      await carbonToken.getAddress(),
+      await projectRegistry.getAddress(),
+      owner.address
+    ]) as unknown as CarbonCreditMarketplace;
+
+    const TreasuryFactory = await ethers.getContractFactory("CarbonFeeTreasury");
+    treasury = await TreasuryFactory.deploy(marketplace.getAddress(), owner.address);
+    await marketplace.connect(owner).setFeeTreasury(treasury.getAddress());
+
+    await projectRegistry.connect(seller).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(owner).acceptProject(projectId);
+    const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(owner).issueVintage(projectId, vintage, creditsIssued);
+    await carbonToken.connect(owner).mintCredits(seller.address, projectId, vintage, creditsIssued, "0x");
+    await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+  }
+
+  // Sell and buy an order so the marketplace accrues the platform fee
+  async function tradeOrder(orderId: number) {
+    await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    await marketplace.connect(buyer).executeTrade(orderId, { value: orderPrice });
+    return orderPrice * await marketplace.platformFeeBasisPoints() / 10000n;
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  describe("Recipients", function () {
+    it("Should configure payout recipients with shares", async function () {
+      await expect(
+        treasury.connect(owner).setFeeRecipients([firstRecipient.address, secondRecipient.address], [6000, 4000])
+      ).to.emit(treasury, "FeeRecipientsUpdated");
+
+      // Replacing the recipients clears the previous shares
+      await treasury.connect(owner).setFeeRecipients([secondRecipient.address], [10000]);
+      const [recipients, shares] = await treasury.getFeeRecipients();
+      expect(recipients).to.deep.equal([secondRecipient.address]);
+      expect(shares).to.deep.equal([10000n]);
+      expect(await treasury.feeRecipientShares(firstRecipient.address)).to.equal(0);
+    });
+
+    it("Should validate the recipients and shares", async function () {
+      await expect(
+        treasury.connect(firstRecipient).setFeeRecipients([firstRecipient.address], [10000])
+      ).to.be.revertedWithCustomError(treasury, "OwnableUnauthorizedAccount");
+      await expect(
+        treasury.connect(owner).setFeeRecipients([firstRecipient.address, secondRecipient.address], [6000, 3000])
+      ).to.be.revertedWithCustomError(treasury, "InvalidFeeShares").withArgs(9000);
+      await expect(
+        treasury.connect(owner).setFeeRecipients([firstRecipient.address, firstRecipient.address], [5000, 5000])
+      ).to.be.revertedWithCustomError(treasury, "InvalidFeeRecipient").withArgs(firstRecipient.address);
+      await expect(
+        treasury.connect(owner).setFeeRecipients([ethers.ZeroAddress], [10000])
+      ).to.be.revertedWithCustomError(treasury, "InvalidFeeRecipient").withArgs(ethers.ZeroAddress);
+      await expect(
+        treasury.connect(owner).setFeeRecipients([firstRecipient.address], [5000, 5000])
+      ).to.be.revertedWithCustomError(treasury, "MismatchingArrayLengths");
+    });
+  });
+
+  describe("Claiming", function () {
+    beforeEach(async function () {
+      await treasury.connect(owner).setFeeRecipients([firstRecipient.address, secondRecipient.address], [6000, 4000]);
+    });
+
+    it("Should split the accrued fees between the recipients", async function () {
+      const platformFee = await tradeOrder(0);
+      let [accrued] = await treasury.getFeeAccounting(ethers.ZeroAddress);
+      expect(accrued).to.equal(platformFee);
+
+      const tx = treasury.connect(buyer).claimFees(ethers.ZeroAddress);
+      await expect(tx).to.emit(treasury, feesClaimedEvent).withArgs(ethers.ZeroAddress, buyer.address, platformFee, 0);
+      await expect(tx).to.emit(marketplace, "FeesWithdrawn")
+        .withArgs(ethers.ZeroAddress, await treasury.getAddress(), platformFee);
+      await expect(tx).to.changeEtherBalances([marketplace, treasury], [-platformFee, platformFee]);
+
+      const firstShare = platformFee * 6000n / 10000n;
+      expect(await treasury.recipientBalances(ethers.ZeroAddress, firstRecipient.address)).to.equal(firstShare);
+      expect(await treasury.recipientBalances(ethers.ZeroAddress, secondRecipient.address)).to.equal(platformFee - firstShare);
+
+      let paid;
+      [accrued, , paid] = await treasury.getFeeAccounting(ethers.ZeroAddress);
+      expect(accrued).to.equal(0);
+      expect(paid).to.equal(platformFee);
+    });
+
+    it("Should let recipients withdraw their share", async function () {
+      const platformFee = await tradeOrder(0);
+      await treasury.claimFees(ethers.ZeroAddress);
+      const firstShare = platformFee * 6000n / 10000n;
+
+      await expect(
+        treasury.connect(firstRecipient).withdraw(ethers.ZeroAddress, firstRecipient.address)
+      ).to.changeEtherBalance(firstRecipient, firstShare);
+      await expect(
+        treasury.connect(firstRecipient).withdraw(ethers.ZeroAddress, firstRecipient.address)
+      ).to.be.revertedWithCustomError(treasury, "InsufficientBalance");
+    });
+
+    it("Should set part of every claim aside for keeper rewards", async function () {
+      await treasury.connect(owner).updateKeeperReserveShare(1000);
+      const platformFee = await tradeOrder(0);
+      await treasury.claimFees(ethers.ZeroAddress);
+
+      const reservedFees = platformFee / 10n;
+      let [accrued, reserved, paid, rewardsPaid] = await treasury.getFeeAccounting(ethers.ZeroAddress);
+      expect([accrued, reserved, paid, rewardsPaid]).to.deep.equal([0n, reservedFees, platformFee - reservedFees, 0n]);
+      expect(await treasury.feesReserved(ethers.ZeroAddress)).to.equal(reservedFees);
+
+      // The reserve pays for closing expired orders
+      await marketplace.connect(seller).createSellOrder(tokenId, 100, pricePerCredit, SEVEN_DAYS);
+      await time.increase(SEVEN_DAYS + 1);
+      await marketplace.connect(buyer).closeExpiredOrder(1);
+      const reward = 100n * pricePerCredit * await marketplace.closeExpiredOrderReward() / 10000n;
+      [, reserved, , rewardsPaid] = await treasury.getFeeAccounting(ethers.ZeroAddress);
+      expect(reserved).to.equal(reservedFees - reward);
+      expect(rewardsPaid).to.equal(reward);
+    });
+
+    it("Should claim ERC-20 fees", async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+      const usdcAddress = await usdc.getAddress();
+      const usdcPrice = 25_000_000n;
+      await usdc.mint(buyer.address, orderAmount * usdcPrice);
+      await usdc.connect(buyer).approve(marketplace.getAddress(), ethers.MaxUint256);
+      await marketplace.connect(owner).setPaymentTokenAllowed(usdcAddress, true);
+      await marketplace.connect(seller).createTokenSellOrder(tokenId, orderAmount, usdcPrice, SEVEN_DAYS, usdcAddress);
+      await marketplace.connect(buyer).executeTrade(0);
+      const platformFee = orderAmount * usdcPrice * await marketplace.platformFeeBasisPoints() / 10000n;
+
+      await treasury.connect(owner).updateKeeperReserveShare(1000);
+      await expect(
+        treasury.claimFees(usdcAddress)
+      ).to.emit(treasury, feesClaimedEvent).withArgs(usdcAddress, owner.address, platformFee, platformFee / 10n);
+      expect(await marketplace.keeperRewardReserves(usdcAddress)).to.equal(platformFee / 10n);
+
+      await expect(
+        treasury.connect(secondRecipient).withdraw(usdcAddress, secondRecipient.address)
+      ).to.changeTokenBalance(usdc, secondRecipient, (platformFee - platformFee / 10n) * 4000n / 10000n);
+    });
+
+    it("Should only let the treasury withdraw the fees", async function () {
+      await expect(
+        marketplace.connect(owner).withdrawFees(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, "NotFeeTreasury");
+      await expect(
+        treasury.connect(owner).updateKeeperReserveShare(5001)
+      ).to.be.revertedWithCustomError(treasury, "InvalidKeeperReserveShare").withArgs(5001);
+    });
+  });
+
+  it("Should close expired orders when the keeper reserve is short", async function () {
+    await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    await time.increase(SEVEN_DAYS + 1);
+    await expect(
+      marketplace.connect(buyer).closeExpiredOrder(0)
+    ).to.emit(marketplace, "ExpiredOrderClosed");
+    expect(await marketplace.accountBalances(buyer.address)).to.equal(0);
+
+    // A partly funded reserve pays what it has
+    const reserve = 10n;
+    await marketplace.connect(owner).fundKeeperRewards(ethers.ZeroAddress, 0, { value: reserve });
+    await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    await time.increase(SEVEN_DAYS + 1);
+    await marketplace.connect(buyer).closeExpiredOrder(1);
+    expect(await marketplace.accountBalances(buyer.address)).to.equal(reserve);
+    expect(await marketplace.keeperRewardReserves(ethers.ZeroAddress)).to.equal(0);
+  });
+
+  it("Should not claim without recipients", async function () {
+    await tradeOrder(0);
+    await expect(
+      treasury.claimFees(ethers.ZeroAddress)
+    ).to.be.revertedWithCustomError(treasury, "NoFeeRecipients");
+  });
+});
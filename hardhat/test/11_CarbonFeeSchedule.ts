@@ -0,0 +1,243 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  CarbonCreditMarketplace,
+  CarbonCreditToken,
+  CarbonFeeSchedule,
+  CarbonProjectRegistry
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("CarbonFeeSchedule", function () {
+  let projectRegistry: CarbonProjectRegistry;
+  let carbonToken: CarbonCreditToken;
+  let marketplace: CarbonCreditMarketplace;
+  let feeSchedule: CarbonFeeSchedule;
+
+  let owner: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const tradeProceedsSplitEvent = "TradeProceedsSplit";
+
+  const initMintPct = 90;
+  const projectId = 0;
+  const vintage = 2024;
+  const tokenId = (projectId << 16) | vintage;
+  const carbonRemoved = 100000;
+  const orderAmount = 1000n;
+  const pricePerCredit = ethers.parseEther("0.001");
+  const orderPrice = orderAmount * pricePerCredit;
+  const baseFee = 120n;
+  const SEVEN_DAYS = 7*24*60*60;
+  const VOLUME_PERIOD = 30*24*60*60;
+  // 1% once a trader bought or sold one order, 0.5% after two
+  const tiers = [
+    { minVolume: orderPrice, feeBasisPoints: 100 },
+    { minVolume: 2n * orderPrice, feeBasisPoints: 50 }
+  ];
+
+  async function deployContracts() {
+    [owner, seller, buyer, otherAccount] = await ethers.getSigners();
+
+    const ProjectRegistryFactory = await ethers.getContractFactory("CarbonProjectRegistry");
+    projectRegistry = await upgrades.deployProxy(ProjectRegistryFactory, [initMintPct, owner.address, seller.address]) as unknown as CarbonProjectRegistry;
+
+    const CarbonTokenFactory = await ethers.getContractFactory("CarbonCreditToken");
+    carbonToken = await upgrades.deployProxy(CarbonTokenFactory, [owner.address, owner.address, await projectRegistry.getAddress()]) as unknown as CarbonCreditToken;
+
+    const MarketplaceFactory = await ethers.getContractFactory("CarbonCreditMarketplace");
+    marketplace = await upgrades.deployProxy(MarketplaceFactory, [
+      await carbonToken.getAddress(),
+      await projectRegistry.getAddress(),
+      owner.address
+    ]) as unknown as CarbonCreditMarketplace;
+
+    const FeeScheduleFactory = await ethers.getContractFactory("CarbonFeeSchedule");
+    feeSchedule = await FeeScheduleFactory.deploy(marketplace.getAddress(), owner.address);
+    await marketplace.connect(owner).setFeeSchedule(feeSchedule.getAddress());
+
+    await projectRegistry.connect(seller).addProject(carbonRemoved, "Qm12345exampleCID", "0000/2024");
+    await projectRegistry.connect(owner).acceptProject(projectId);
+    const creditsIssued = await projectRegistry.getProjectIssuedCredits(projectId);
+    await projectRegistry.connect(owner).issueVintage(projectId, vintage, creditsIssued);
+    await carbonToken.connect(owner).mintCredits(seller.address, projectId, vintage, creditsIssued, "0x");
+    await carbonToken.connect(seller).setApprovalForAll(marketplace.getAddress(), true);
+  }
+
+  // Sell an order to the buyer and return the platform fee charged on it
+  async function tradeOrder(orderId: number) {
+    await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+    const accruedFees = await marketplace.accountBalances(marketplace.getAddress());
+    await marketplace.connect(buyer).executeTrade(orderId, { value: orderPrice });
+    return await marketplace.accountBalances(marketplace.getAddress()) - accruedFees;
+  }
+
+  beforeEach(async function () {
+    await deployContracts();
+  });
+
+  describe("Volume tiers", function () {
+    beforeEach(async function () {
+      await feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, tiers);
+    });
+
+    it("Should lower the fee as the buyer's trailing volume grows", async function () {
+      expect(await tradeOrder(0)).to.equal(orderPrice * baseFee / 10000n);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(orderPrice);
+      expect(await tradeOrder(1)).to.equal(orderPrice * 100n / 10000n);
+      expect(await tradeOrder(2)).to.equal(orderPrice * 50n / 10000n);
+
+      // Volume of other traders doesn't count
+      expect(await feeSchedule.getFeeBasisPoints(otherAccount.address, owner.address, tokenId, ethers.ZeroAddress))
+        .to.equal(baseFee);
+      expect(await feeSchedule.getVolumeTiers(ethers.ZeroAddress)).to.have.lengthOf(2);
+    });
+
+    it("Should lower the fee as the seller's trailing volume grows", async function () {
+      await tradeOrder(0);
+      await tradeOrder(1);
+      expect(await feeSchedule.trailingVolume(seller.address, ethers.ZeroAddress)).to.equal(2n * orderPrice);
+      expect(await feeSchedule.getFeeBasisPoints(otherAccount.address, seller.address, tokenId, ethers.ZeroAddress))
+        .to.equal(50);
+    });
+
+    it("Should only count the current and the previous period", async function () {
+      await tradeOrder(0);
+      await time.increase(VOLUME_PERIOD);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(orderPrice);
+      await tradeOrder(1);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(2n * orderPrice);
+
+      await time.increase(VOLUME_PERIOD);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(orderPrice);
+      await time.increase(VOLUME_PERIOD);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should validate the tiers", async function () {
+      await expect(
+        feeSchedule.connect(buyer).setVolumeTiers(ethers.ZeroAddress, tiers)
+      ).to.be.revertedWithCustomError(feeSchedule, "OwnableUnauthorizedAccount");
+      await expect(
+        feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, [tiers[1], tiers[0]])
+      ).to.be.revertedWithCustomError(feeSchedule, "InvalidVolumeTier").withArgs(tiers[0].minVolume);
+      await expect(
+        feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, [{ minVolume: 0, feeBasisPoints: 50 }])
+      ).to.be.revertedWithCustomError(feeSchedule, "InvalidVolumeTier").withArgs(0);
+      await expect(
+        feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, [{ minVolume: 1, feeBasisPoints: 1001 }])
+      ).to.be.revertedWithCustomError(feeSchedule, "InvalidFee").withArgs(1001);
+    });
+  });
+
+  describe("Overrides", function () {
+    it("Should waive the fee for an account", async function () {
+      await expect(
+        feeSchedule.connect(owner).setAccountFeeOverride(seller.address, 0)
+      ).to.emit(feeSchedule, "AccountFeeOverrideUpdated").withArgs(seller.address, true, 0);
+
+      await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+      await expect(
+        marketplace.connect(buyer).executeTrade(0, { value: orderPrice })
+      ).to.emit(marketplace, tradeProceedsSplitEvent)
+        .withArgs(tokenId, seller.address, seller.address, 0, buyer.address, orderPrice, 0, 0, orderPrice);
+
+      await feeSchedule.connect(owner).removeAccountFeeOverride(seller.address);
+      expect(await tradeOrder(1)).to.equal(orderPrice * baseFee / 10000n);
+    });
+
+    it("Should apply project overrides below account overrides", async function () {
+      await feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, tiers);
+      await feeSchedule.connect(owner).setProjectFeeOverride(projectId, 300);
+      expect(await tradeOrder(0)).to.equal(orderPrice * 300n / 10000n);
+      // The project override also beats the buyer's volume tier
+      expect(await tradeOrder(1)).to.equal(orderPrice * 300n / 10000n);
+
+      // The lower override of buyer and seller wins
+      await feeSchedule.connect(owner).setAccountFeeOverride(buyer.address, 80);
+      await feeSchedule.connect(owner).setAccountFeeOverride(seller.address, 60);
+      expect(await feeSchedule.getFeeBasisPoints(buyer.address, seller.address, tokenId, ethers.ZeroAddress)).to.equal(60);
+
+      await feeSchedule.connect(owner).removeProjectFeeOverride(projectId);
+      await feeSchedule.connect(owner).removeAccountFeeOverride(buyer.address);
+      await feeSchedule.connect(owner).removeAccountFeeOverride(seller.address);
+      expect(await tradeOrder(2)).to.equal(orderPrice * 50n / 10000n);
+    });
+
+    it("Should resolve the fee for the buyer of buy orders", async function () {
+      await feeSchedule.connect(owner).setAccountFeeOverride(buyer.address, 0);
+      await marketplace.connect(buyer).createBuyOrder(tokenId, orderAmount, pricePerCredit, { value: orderPrice });
+
+      await expect(
+        marketplace.connect(seller).fillBuyOrder(0, orderAmount)
+      ).to.emit(marketplace, tradeProceedsSplitEvent)
+        .withArgs(tokenId, seller.address, seller.address, 0, buyer.address, orderPrice, 0, 0, orderPrice);
+      expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(orderPrice);
+    });
+
+    it("Should cap the overrides", async function () {
+      await expect(
+        feeSchedule.connect(owner).setProjectFeeOverride(projectId, 1001)
+      ).to.be.revertedWithCustomError(feeSchedule, "InvalidFee").withArgs(1001);
+      await expect(
+        feeSchedule.connect(buyer).setAccountFeeOverride(buyer.address, 0)
+      ).to.be.revertedWithCustomError(feeSchedule, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  it("Should preview the fee of an order for a buyer", async function () {
+    await feeSchedule.connect(owner).setVolumeTiers(ethers.ZeroAddress, tiers);
+    await tradeOrder(0);
+    await marketplace.connect(seller).createSellOrder(tokenId, orderAmount, pricePerCredit, SEVEN_DAYS);
+
+    expect(await feeSchedule.previewTradeFee(buyer.address, 1, 500))
+      .to.deep.equal([100n, 500n * pricePerCredit * 100n / 10000n]);
+    // The seller's volume counts for other buyers as well
+    expect(await feeSchedule.previewTradeFee(otherAccount.address, 1, orderAmount))
+      .to.deep.equal([100n, orderPrice * 100n / 10000n]);
+    await expect(
+      feeSchedule.previewTradeFee(buyer.address, 0, 1)
+    ).to.be.revertedWithCustomError(feeSchedule, "InactiveOrder").withArgs(0);
+    await expect(
+      feeSchedule.previewTradeFee(buyer.address, 1, orderAmount + 1n)
+    ).to.be.revertedWithCustomError(feeSchedule, "InvalidAmount").withArgs(orderAmount + 1n);
+  });
+
+  it("Should apply to auction sales", async function () {
+    const AuctionHouseFactory = await ethers.getContractFactory("CarbonCreditAuctionHouse");
+    const auctionHouse = await AuctionHouseFactory.deploy(marketplace.getAddress());
+    await carbonToken.connect(seller).setApprovalForAll(auctionHouse.getAddress(), true);
+    await auctionHouse.connect(seller).createDutchAuction(tokenId, orderAmount, orderPrice, pricePerCredit, SEVEN_DAYS);
+    await auctionHouse.connect(seller).createDutchAuction(tokenId, orderAmount, orderPrice, pricePerCredit, SEVEN_DAYS);
+    await feeSchedule.connect(owner).setAccountFeeOverride(seller.address, 0);
+
+    // Without recorder access the schedule still sets the fee, but the sale doesn't count towards volume
+    await auctionHouse.connect(buyer).buyDutchAuction(0, { value: orderPrice });
+    const firstSalePrice = await auctionHouse.accountBalances(seller.address);
+    expect(firstSalePrice).to.be.greaterThan(0);
+    expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(0);
+    expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(0);
+
+    await expect(
+      feeSchedule.connect(owner).setTradeRecorder(auctionHouse.getAddress(), true)
+    ).to.emit(feeSchedule, "TradeRecorderUpdated").withArgs(await auctionHouse.getAddress(), true);
+    await auctionHouse.connect(buyer).buyDutchAuction(1, { value: orderPrice });
+
+    const salePrice = await auctionHouse.accountBalances(seller.address) - firstSalePrice;
+    expect(await marketplace.accountBalances(marketplace.getAddress())).to.equal(0);
+    expect(await feeSchedule.trailingVolume(buyer.address, ethers.ZeroAddress)).to.equal(salePrice);
+    expect(await feeSchedule.trailingVolume(seller.address, ethers.ZeroAddress)).to.equal(salePrice);
+  });
+
+  it("Should only record trades from the marketplace and trade recorders", async function () {
+    await expect(
+      feeSchedule.connect(buyer).recordTrade(buyer.address, seller.address, tokenId, ethers.ZeroAddress, orderPrice)
+    ).to.be.revertedWithCustomError(feeSchedule, "NotTradeRecorder");
+    await expect(
+      feeSchedule.connect(buyer).setTradeRecorder(buyer.address, true)
+    ).to.be.revertedWithCustomError(feeSchedule, "OwnableUnauthorizedAccount");
+  });
+});